@@ -15,6 +15,7 @@ interface EmotionsSummary {
 interface TopArticle {
   text: string;
   emotion: string;
+  excerpt?: string; // Lead paragraphs of the article, when full text was fetched
 }
 
 interface ChatRequest {
@@ -33,6 +34,9 @@ interface ChatErrorResponse {
   details?: string;
 }
 
+// Excerpts add context, but with every article included they have to stay short
+const EXCERPT_MAX_CHARS = 600;
+
 // =====================
 // MAIN POST HANDLER
 // =====================
@@ -177,7 +181,13 @@ You remain consistently supportive, neutral, and grounded — helping people see
           
           // Format: Article #N [emotion]: "Full text..."
           // The AI will identify the title, translate it, and format as "Original Title - Translated Title"
-          return `Article #${articleNum} [${emotion}]: "${text}"`;
+          const line = `Article #${articleNum} [${emotion}]: "${text}"`;
+          if (typeof article.excerpt !== 'string' || !article.excerpt.trim()) {
+            return line;
+          }
+          // Lead paragraphs give the AI quotable text beyond the headline
+          const excerpt = article.excerpt.slice(0, EXCERPT_MAX_CHARS).replace(/"/g, '\\"').replace(/\s+/g, ' ').trim();
+          return `${line}\n   Excerpt: "${excerpt}${article.excerpt.length > EXCERPT_MAX_CHARS ? '…' : ''}"`;
         }).join('\n\n')
       : 'No sample articles provided';
 
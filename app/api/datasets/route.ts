@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { DATASET_COLUMN_FIELDS, DATASET_FORMATS, detectDatasetFormat, isDatasetFormat, type DatasetColumnMap, type DatasetFormat } from '@/utils/loadDataset';
+import { deleteDataset, getMaxUploadBytes, listStoredDatasets, saveDataset } from '@/utils/datasetStore';
+import { isAuthorized } from '@/utils/adminToken';
+
+// =====================
+// DATASETS API
+// =====================
+// GET    /api/datasets - uploaded datasets (public, read-only)
+// POST   /api/datasets?name=floods.csv&text=body&lat=y&lon=x&timestamp=posted_at
+//        Body: the raw CSV, TSV or NDJSON file (streamed to disk, not buffered)
+//        Format: ?format=csv|tsv|ndjson, else the Content-Type, else the name's extension
+//        Columns: text, lat, lon, timestamp, id, language, region - each a column name,
+//        or several comma-separated (first non-empty wins); unmapped fields use the defaults
+// DELETE /api/datasets?id=<id>
+//
+// Uploaded datasets are classified and mapped like any other source:
+// POST /api/posts { "sources": ["dataset"], "dataset": "<id>" }
+//
+// REQUIRED ENVIRONMENT VARIABLE (for POST and DELETE):
+// - DATASET_UPLOAD_TOKEN (sent as "Authorization: Bearer <token>" or "x-admin-token")
+
+const CONTENT_TYPE_FORMATS: Record<string, DatasetFormat> = {
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+};
+
+// =====================
+// HELPER: UPLOAD TOKEN CHECK
+// =====================
+/**
+ * 503 if uploads aren't configured, 401 if the token is wrong, otherwise null
+ */
+function checkAuthorization(request: NextRequest): NextResponse | null {
+  if (!process.env.DATASET_UPLOAD_TOKEN) {
+    return NextResponse.json(
+      { error: 'Dataset uploads disabled', details: 'DATASET_UPLOAD_TOKEN is not configured' },
+      { status: 503 }
+    );
+  }
+  if (!isAuthorized(request, 'DATASET_UPLOAD_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized', details: 'Missing or invalid upload token' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
+// =====================
+// HELPER: PARSE UPLOAD PARAMETERS
+// =====================
+/**
+ * Format from ?format=, then the Content-Type, then the file name
+ */
+function resolveFormat(request: NextRequest, name: string): DatasetFormat | null {
+  const requested = request.nextUrl.searchParams.get('format');
+  if (requested) {
+    return isDatasetFormat(requested) ? requested : null;
+  }
+  const contentType = (request.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  return CONTENT_TYPE_FORMATS[contentType] ?? detectDatasetFormat(name);
+}
+
+/**
+ * Column mapping from the query string (?text=body&lat=y,latitude)
+ */
+function parseColumns(request: NextRequest): Partial<DatasetColumnMap> {
+  const columns: Partial<DatasetColumnMap> = {};
+  for (const field of DATASET_COLUMN_FIELDS) {
+    const value = request.nextUrl.searchParams.get(field);
+    if (!value) continue;
+    const names = value.split(',').map(name => name.trim()).filter(Boolean);
+    if (names.length > 0) {
+      columns[field] = names.length === 1 ? names[0] : names;
+    }
+  }
+  return columns;
+}
+
+// =====================
+// GET: LIST DATASETS
+// =====================
+export async function GET() {
+  return NextResponse.json({
+    ok: true,
+    datasets: listStoredDatasets(),
+    maxUploadBytes: getMaxUploadBytes(),
+  });
+}
+
+// =====================
+// POST: UPLOAD A DATASET
+// =====================
+export async function POST(request: NextRequest) {
+  const denied = checkAuthorization(request);
+  if (denied) {
+    return denied;
+  }
+
+  const name = (request.nextUrl.searchParams.get('name') || '').trim() || `upload-${new Date().toISOString()}`;
+  const format = resolveFormat(request, name);
+  if (!format) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: `Unknown format. Pass ?format= (${DATASET_FORMATS.join(', ')}), a matching Content-Type, or a name ending in .csv, .tsv or .ndjson` },
+      { status: 400 }
+    );
+  }
+
+  const maxBytes = getMaxUploadBytes();
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+    return NextResponse.json(
+      { error: 'Upload too large', details: `Uploads are limited to ${Math.round(maxBytes / 1024 / 1024)} MB` },
+      { status: 413 }
+    );
+  }
+
+  if (!request.body) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: 'Send the file as the request body' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = Readable.fromWeb(request.body as unknown as NodeReadableStream<Uint8Array>);
+    const dataset = await saveDataset(body, { name, format, columns: parseColumns(request) });
+    console.log(`[API] Dataset uploaded: ${dataset.id} (${dataset.rows} rows)`);
+    return NextResponse.json({ ok: true, dataset }, { status: 201 });
+  } catch (error) {
+    console.error('[API] Dataset upload failed:', error);
+    return NextResponse.json(
+      { error: 'Upload failed', details: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+}
+
+// =====================
+// DELETE: REMOVE A DATASET
+// =====================
+export async function DELETE(request: NextRequest) {
+  const denied = checkAuthorization(request);
+  if (denied) {
+    return denied;
+  }
+
+  const id = request.nextUrl.searchParams.get('id') || '';
+  if (!(await deleteDataset(id))) {
+    return NextResponse.json(
+      { error: 'Dataset not found', details: `No dataset with id "${id}"` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ ok: true, id });
+}
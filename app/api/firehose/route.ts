@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs';
+import { postBuffer, type FirehoseTransport } from '@/utils/blueskyFirehose';
+import type { JetstreamSubscriptionOptions } from '@/utils/jetstreamSubscription';
+import { resolveCapturePath, type FirehoseReplayOptions } from '@/utils/firehoseCapture';
+import type { MastodonStreamOptions } from '@/utils/mastodonStream';
+import { isAuthorized } from '@/utils/adminToken';
+
+// =====================
+// FIREHOSE CONTROL API
+// =====================
+// GET  /api/firehose - connection + buffer status (public, read-only)
+// POST /api/firehose - { action: "start" | "stop" | "restart", subscription?, transport?, record? }
+//                      { action: "replay", replay: { capture, speed?, loop? } }
+//                      { action: "mastodon-start", mastodon?: { baseUrl?, stream?, tag?, accessToken? } }
+//                      { action: "mastodon-stop" }
+//
+// Captures are NDJSON files in FIREHOSE_CAPTURE_DIR (".pulselens/captures"),
+// referred to by name: "record": "demo" writes .pulselens/captures/demo.ndjson
+//
+// REQUIRED ENVIRONMENT VARIABLE (for POST):
+// - FIREHOSE_ADMIN_TOKEN (sent as "Authorization: Bearer <token>" or "x-admin-token")
+
+// =====================
+// TYPES
+// =====================
+type FirehoseAction = 'start' | 'stop' | 'restart' | 'replay' | 'mastodon-start' | 'mastodon-stop';
+
+interface ReplayRequest extends FirehoseReplayOptions {
+  capture: string; // Capture name
+}
+
+interface ControlRequest {
+  action: FirehoseAction;
+  subscription?: JetstreamSubscriptionOptions;
+  transport?: FirehoseTransport; // "jetstream" (default) or "relay" (raw subscribeRepos)
+  record?: string; // Capture name to record the live stream to
+  replay?: ReplayRequest;
+  mastodon?: MastodonStreamOptions; // Falls back to MASTODON_* env vars
+}
+
+// =====================
+// HELPER: SUBSCRIPTION CHECK
+// =====================
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Problem with a subscription from the request body, or null if it's usable
+ */
+function validateSubscription(subscription: unknown): string | null {
+  if (typeof subscription !== 'object' || subscription === null || Array.isArray(subscription)) {
+    return 'subscription must be an object';
+  }
+  const { wantedCollections, wantedDids, maxMessageSizeBytes } = subscription as Record<string, unknown>;
+  if (wantedCollections !== undefined && !isStringArray(wantedCollections)) {
+    return 'subscription.wantedCollections must be an array of strings';
+  }
+  if (wantedDids !== undefined && !isStringArray(wantedDids)) {
+    return 'subscription.wantedDids must be an array of strings';
+  }
+  if (maxMessageSizeBytes !== undefined && (typeof maxMessageSizeBytes !== 'number' || !Number.isFinite(maxMessageSizeBytes) || maxMessageSizeBytes < 0)) {
+    return 'subscription.maxMessageSizeBytes must be a non-negative number';
+  }
+  return null;
+}
+
+// =====================
+// HELPER: STATUS PAYLOAD
+// =====================
+function getStatus() {
+  const buffer = postBuffer.getStats();
+
+  return {
+    running: postBuffer.isActive(),
+    stream: postBuffer.getStreamStats(),
+    connection: postBuffer.getConnectionStats(),
+    buffer: {
+      ...buffer,
+      occupancy: buffer.maxSize > 0 ? Math.round((buffer.size / buffer.maxSize) * 1000) / 1000 : 0,
+    },
+    subscription: postBuffer.getSubscription(),
+    ...postBuffer.getSourceStats(),
+    mastodon: postBuffer.getMastodonStats(),
+  };
+}
+
+// =====================
+// GET: STATUS
+// =====================
+export async function GET() {
+  return NextResponse.json({ ok: true, ...getStatus() });
+}
+
+// =====================
+// POST: START / STOP / RESTART
+// =====================
+export async function POST(request: NextRequest) {
+  if (!process.env.FIREHOSE_ADMIN_TOKEN) {
+    return NextResponse.json(
+      { error: 'Firehose control disabled', details: 'FIREHOSE_ADMIN_TOKEN is not configured' },
+      { status: 503 }
+    );
+  }
+
+  if (!isAuthorized(request, 'FIREHOSE_ADMIN_TOKEN')) {
+    return NextResponse.json(
+      { error: 'Unauthorized', details: 'Missing or invalid admin token' },
+      { status: 401 }
+    );
+  }
+
+  let body: ControlRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request', details: 'Body must be JSON: { "action": "start" | "stop" | "restart" }' },
+      { status: 400 }
+    );
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: 'Body must be a JSON object: { "action": "start" | "stop" | "restart" }' },
+      { status: 400 }
+    );
+  }
+
+  const { action, subscription, transport, record, replay, mastodon } = body;
+  const wasRunning = postBuffer.isActive();
+
+  const subscriptionError = subscription !== undefined ? validateSubscription(subscription) : null;
+  if (subscriptionError) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: subscriptionError },
+      { status: 400 }
+    );
+  }
+
+  if (transport !== undefined && transport !== 'jetstream' && transport !== 'relay') {
+    return NextResponse.json(
+      { error: 'Invalid request', details: `Unknown transport "${String(transport)}". Use jetstream or relay.` },
+      { status: 400 }
+    );
+  }
+
+  let recordPath: string | undefined;
+  let replayPath: string | undefined;
+  try {
+    recordPath = record ? resolveCapturePath(record) : undefined;
+    replayPath = replay?.capture ? resolveCapturePath(replay.capture) : undefined;
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Invalid request', details: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  switch (action) {
+    case 'start':
+      if (wasRunning && (transport !== undefined || record !== undefined)) {
+        // Only filters can change on a live connection - the transport and recorder are chosen at connect
+        return NextResponse.json(
+          { error: 'Firehose already running', details: 'transport and record only apply when connecting. Use "restart" to change them.' },
+          { status: 409 }
+        );
+      }
+      if (wasRunning && subscription) {
+        // Already connected - apply new filters live instead of reconnecting
+        postBuffer.updateSubscription(subscription);
+      } else {
+        postBuffer.start({ subscription, transport, recordPath });
+      }
+      break;
+    case 'stop':
+      postBuffer.stop();
+      break;
+    case 'restart':
+      postBuffer.restart({ subscription, transport, recordPath });
+      break;
+    case 'replay':
+      if (!replayPath || !replay) {
+        return NextResponse.json(
+          { error: 'Invalid request', details: 'replay requires { "replay": { "capture": "<name>" } }' },
+          { status: 400 }
+        );
+      }
+      if (!fs.existsSync(replayPath)) {
+        return NextResponse.json(
+          { error: 'Capture not found', details: `No capture named "${replay.capture}"` },
+          { status: 404 }
+        );
+      }
+      if (replay.speed !== undefined && (typeof replay.speed !== 'number' || !Number.isFinite(replay.speed) || replay.speed < 0)) {
+        return NextResponse.json(
+          { error: 'Invalid request', details: 'replay.speed must be a number >= 0 (0 = as fast as possible)' },
+          { status: 400 }
+        );
+      }
+      if (replay.loop !== undefined && typeof replay.loop !== 'boolean') {
+        return NextResponse.json(
+          { error: 'Invalid request', details: 'replay.loop must be true or false' },
+          { status: 400 }
+        );
+      }
+      // Replay replaces whatever is feeding the buffer
+      if (wasRunning) {
+        postBuffer.stop();
+      }
+      postBuffer.startReplay(replayPath, { speed: replay.speed, loop: replay.loop });
+      break;
+    case 'mastodon-start':
+      if (mastodon?.stream !== undefined && !['public', 'public:local', 'hashtag'].includes(mastodon.stream)) {
+        return NextResponse.json(
+          { error: 'Invalid request', details: `Unknown Mastodon stream "${String(mastodon.stream)}". Use public, public:local or hashtag.` },
+          { status: 400 }
+        );
+      }
+      try {
+        postBuffer.startMastodon(mastodon);
+      } catch (error) {
+        return NextResponse.json(
+          { error: 'Invalid request', details: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+      break;
+    case 'mastodon-stop':
+      postBuffer.stopMastodon();
+      break;
+    default:
+      return NextResponse.json(
+        { error: 'Invalid request', details: `Unknown action "${String(action)}". Use start, stop, restart, replay, mastodon-start or mastodon-stop.` },
+        { status: 400 }
+      );
+  }
+
+  console.log(`[API] Firehose ${action} (was running: ${wasRunning})`);
+
+  return NextResponse.json({ ok: true, action, wasRunning, ...getStatus() });
+}
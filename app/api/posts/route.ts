@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { classifyEmotionsBatch, generateEmotionsSummary, EmotionResult } from '../../utils/classifyEmotion';
-import { fetchGdeltEvents } from '@/utils/gdeltClient';
+import { classifyEmotionsBatch, generateEmotionsBreakdown, generateEmotionsSummary, EmotionResult } from '../../utils/classifyEmotion';
 import { formatMapData } from '@/utils/formatMapData';
+import { postBuffer } from '@/utils/blueskyFirehose';
+import { ingestSources, sourceKind, type SourceKind, type UnifiedPost } from '@/utils/ingestUnified';
+import { getDefaultSources, getSourceIds, hasSource } from '@/utils/sources';
+import { enrichWithFullText, isFullTextEnabledByDefault } from '@/utils/articleExtractor';
+import { getStoredDataset } from '@/utils/datasetStore';
+import { getLanguagePolicy, isLanguagePolicy, LANGUAGE_POLICIES, resolveLanguages, type LanguagePolicy } from '@/utils/languagePolicy';
 import type { GeoJSON } from 'geojson';
 
 // =====================
@@ -14,17 +19,35 @@ interface PostWithEmotion {
   author_id: string;
   emotion: EmotionResult;
   source: string;
+  sourceType: SourceKind; // "social" (Bluesky, dataset) or "news" (GDELT, NewsAPI)
   uri: string;
   cid: string;
+  fullText?: string; // Lead paragraphs of the linked article (news items, when enriched)
+  category?: string; // News category (NewsAPI top headlines)
+  language?: string; // ISO 639-1 code, when known
+  duplicateCount?: number; // Syndicated copies collapsed into this post
+  duplicateSources?: string[]; // Outlets that ran the story
 }
 
+// Whether summaries count each story once or every copy of it
+type SummaryCount = 'stories' | 'copies';
+
 interface ResponseData {
   region: string;
   coordinates: { lat: number; lon: number };
   geoJson: GeoJSON.FeatureCollection;
   emotionsSummary: Record<string, number>;
-  topPosts: Array<{ text: string; emotion: string }>;
+  summaryCount: SummaryCount; // What the summary and breakdowns count
+  categoryBreakdown: Record<string, Record<string, number>>; // Emotions per news category
+  languageBreakdown: Record<string, Record<string, number>>; // Emotions per language ("unknown" if not reported)
+  languagePolicy: LanguagePolicy;
+  languages: string[] | null; // Languages requested from the sources (null: any)
+  topPosts: Array<{ text: string; emotion: string; excerpt?: string }>;
   posts: PostWithEmotion[];
+  sources: string[]; // Sources that were queried
+  sourceCounts: Record<string, number>; // Posts contributed by each source
+  sourceErrors: Record<string, string>; // Sources whose fetch failed
+  duplicatesCollapsed: number; // Near-duplicate copies merged into other posts
 }
 
 interface CacheEntry {
@@ -35,6 +58,17 @@ interface CacheEntry {
 const cache: Record<string, CacheEntry> = {};
 const CACHE_TTL = 60 * 1000; // 60 seconds in milliseconds
 
+// Drop cached responses containing posts that were deleted, edited or whose account went away
+postBuffer.onEvict(({ uris }) => {
+  const evicted = new Set(uris);
+  for (const key of Object.keys(cache)) {
+    if (cache[key].data.posts.some(post => evicted.has(post.uri))) {
+      console.log(`[Cache] Invalidating ${key} (contains evicted posts)`);
+      delete cache[key];
+    }
+  }
+});
+
 // =====================
 // HELPER: GET REGION COORDINATES
 // =====================
@@ -64,6 +98,29 @@ async function getRegionCoordinates(region: string): Promise<{ lat: number; lon:
   return { lat: latitude, lon: longitude };
 }
 
+// =====================
+// HELPER: PARSE REQUESTED SOURCES
+// =====================
+/**
+ * Validate the "sources" field of the request body against the source registry
+ * @returns The sources (deduped, in registry order), or an error message
+ */
+function parseSources(value: unknown): { sources: string[] } | { error: string } {
+  if (value === undefined || value === null) {
+    return { sources: getDefaultSources() };
+  }
+  const known = getSourceIds();
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: `"sources" must be a non-empty array of: ${known.join(', ')}` };
+  }
+
+  const unknown = value.filter(source => typeof source !== 'string' || !hasSource(source));
+  if (unknown.length > 0) {
+    return { error: `Unknown source(s): ${unknown.map(String).join(', ')}. Use: ${known.join(', ')}` };
+  }
+  return { sources: known.filter(source => value.includes(source)) };
+}
+
 // =====================
 // MAIN POST HANDLER
 // =====================
@@ -78,12 +135,56 @@ export async function POST(request: NextRequest) {
     // Region is optional - if empty, use global posts
     const regionQuery = region && typeof region === 'string' ? region.trim() : '';
 
+    // An uploaded dataset is optional - e.g. { "dataset": "<id>" } (see /api/datasets)
+    const dataset = typeof body.dataset === 'string' && body.dataset ? body.dataset : undefined;
+    if (dataset && !getStoredDataset(dataset)) {
+      return NextResponse.json(
+        { error: 'Dataset not found', details: `No uploaded dataset with id "${dataset}"` },
+        { status: 404 }
+      );
+    }
+
+    // Sources are optional - e.g. { "sources": ["bluesky"] } for social posts only
+    // (a request naming a dataset defaults to just the dataset)
+    const parsedSources = parseSources(body.sources ?? (dataset ? ['dataset'] : undefined));
+    if ('error' in parsedSources) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsedSources.error },
+        { status: 400 }
+      );
+    }
+    const { sources } = parsedSources;
+
+    // Full-text enrichment is optional - e.g. { "fullText": true } (defaults to ARTICLE_FULLTEXT)
+    const fullText = typeof body.fullText === 'boolean' ? body.fullText : isFullTextEnabledByDefault();
+
+    // Language policy is optional - e.g. { "languagePolicy": "native" } (see languagePolicy.ts)
+    if (body.languagePolicy !== undefined && !isLanguagePolicy(body.languagePolicy)) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: `"languagePolicy" must be one of: ${LANGUAGE_POLICIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const languagePolicy = getLanguagePolicy(regionQuery || undefined, body.languagePolicy);
+    const languages = resolveLanguages(regionQuery || undefined, languagePolicy);
+
+    // Syndicated copies are collapsed unless { "dedupe": false }; { "summaryCount": "copies" }
+    // still counts every copy in the summaries
+    const dedupe = typeof body.dedupe === 'boolean' ? body.dedupe : true;
+    if (body.summaryCount !== undefined && body.summaryCount !== 'stories' && body.summaryCount !== 'copies') {
+      return NextResponse.json(
+        { error: 'Invalid request', details: '"summaryCount" must be "stories" or "copies"' },
+        { status: 400 }
+      );
+    }
+    const summaryCount: SummaryCount = body.summaryCount ?? 'stories';
+
     // =====================
     // CHECK CACHE (region-specific, with timestamp for freshness)
     // =====================
     // Use region name + a time window for cache key to ensure some variety
     // Cache is region-specific but refreshes more frequently
-    const cacheKey = regionQuery ? `region:${regionQuery.toLowerCase().trim()}` : 'global';
+    const cacheKey = `${regionQuery ? `region:${regionQuery.toLowerCase().trim()}` : 'global'}|${sources.join(',')}|${languagePolicy}${fullText ? '|fulltext' : ''}${dedupe ? '' : '|nodedupe'}|${summaryCount}${dataset ? `|dataset:${dataset}` : ''}`;
     const cachedEntry = cache[cacheKey];
     
     if (cachedEntry) {
@@ -124,79 +225,47 @@ export async function POST(request: NextRequest) {
     }
 
     // =====================
-    // STEP 3 — FETCH GDELT EVENTS
+    // STEP 3 — FETCH POSTS FROM THE REQUESTED SOURCES
     // =====================
-    // GDELT API only supports country-level filtering via sourcecountry parameter
-    // We need to extract the country from the region query (cities map to countries)
-    const { getCountryNameForGdelt } = await import('@/utils/countryMap');
-    const countryName = regionQuery ? getCountryNameForGdelt(regionQuery) : undefined;
-    
-    if (regionQuery && !countryName) {
-      console.warn(`[Fetch] Could not map region "${regionQuery}" to a country. Skipping GDELT fetch.`);
-      // Continue without GDELT data rather than failing
-    } else {
-      console.log(`Fetching GDELT events${countryName ? ` for country: ${countryName}` : ' (global)'}...`);
-    }
-    
-    // Fetch GDELT events - filter by country using query-based search
-    // Only fetch if we have a valid country name or no region specified (global search)
-    // Note: GDELT API has a maximum of 250 records per request
-    // Using 100 for testing
-    const gdeltPosts = countryName !== undefined || !regionQuery
-      ? await fetchGdeltEvents(100, countryName).catch(err => {
-          console.warn('[Fetch] GDELT error:', err);
-          return [];
-        })
-      : [];
-    
-    console.log(`[Fetch] Retrieved ${gdeltPosts.length} GDELT events`);
-    
-    // Convert GDELT format to uniform format
-    // GDELT has coordinates, so we can use them directly
-    const combined = gdeltPosts.map((gdeltPost, index) => ({
-      text: gdeltPost.text,
-      createdAt: new Date(gdeltPost.createdAt).toISOString(),
-      source: gdeltPost.source,
-      uri: gdeltPost.url || `gdelt-${index}`,
-      cid: `gdelt-${index}`,
-      lat: gdeltPost.coordinates ? gdeltPost.coordinates[1] : null, // lat is second in [lng, lat]
-      lon: gdeltPost.coordinates ? gdeltPost.coordinates[0] : null, // lng is first
-      tone: gdeltPost.tone, // Keep tone for potential use
-    }));
-    
+    // Each source adapter handles its own region matching (e.g. GDELT maps cities to countries)
+    const { posts: combined, counts: sourceCounts, errors: sourceErrors, duplicatesCollapsed } = await ingestSources(
+      { region: regionQuery || undefined, center: regionCoords, languages, dataset },
+      sources,
+      { collapseDuplicates: dedupe }
+    );
+
     if (combined.length === 0) {
       return NextResponse.json(
         { 
           error: `No posts found for region: ${regionQuery || 'global'}`,
           region: regionName,
           coordinates: regionCoords,
-          suggestion: `Could not fetch GDELT events for this region. Try a different region or wait a few minutes for new events to appear.`
+          sources,
+          sourceErrors,
+          suggestion: `Could not fetch posts from ${sources.join(', ')} for this region. Try a different region or source, or wait a few minutes for new posts to appear.`
         },
         { status: 404 }
       );
     }
-    
-    console.log(`[Fetch] Retrieved ${combined.length} GDELT events`);
-    
-    // Since we're already filtering by country at the API level (sourcecountry parameter),
-    // we don't need to apply additional text-based region filtering for country searches.
-    // The GDELT API already ensures all returned articles are from sources in that country.
-    let filteredPosts = combined;
-    
-    // Only apply text-based filtering if we have posts and want to further refine
-    // For now, skip text filtering since country-level filtering is already done by the API
-    console.log(`[Fetch] Using ${combined.length} GDELT events (already filtered by country: ${countryName || 'global'})`);
-    
-    // Use filtered posts
-    const posts = filteredPosts;
+
+    console.log(`[Fetch] Retrieved ${combined.length} posts (${sources.map(source => `${source}: ${sourceCounts[source]}`).join(', ')}; ${duplicatesCollapsed} duplicates collapsed)`);
+    const posts = combined;
+
+    // =====================
+    // STEP 3b — FULL-TEXT ENRICHMENT (OPTIONAL)
+    // =====================
+    // Headlines alone often carry no emotion - fetch the article's lead paragraphs
+    if (fullText) {
+      await enrichWithFullText(posts);
+    }
 
     // =====================
     // STEP 4 — EMOTION CLASSIFICATION
     // =====================
     console.log(`Classifying emotions for ${posts.length} posts...`);
     
-    // Extract post texts for batch classification
-    const postTexts = posts.map(post => post.text);
+    // Extract post texts for batch classification (headline plus article lead when enriched)
+    const postTexts = posts.map(post => post.fullText ? `${post.text}\n\n${post.fullText}` : post.text);
     
     // Classify all posts in parallel
     const emotionResults: EmotionResult[] = await classifyEmotionsBatch(postTexts);
@@ -211,44 +280,45 @@ export async function POST(request: NextRequest) {
       author_id: post.cid || `author-${index}`,
       emotion: emotionResults[index],
       source: post.source,
+      sourceType: sourceKind(post.source),
       uri: post.uri,
       cid: post.cid,
+      fullText: post.fullText,
+      category: post.category,
+      language: post.language,
+      duplicateCount: post.duplicateCount,
+      duplicateSources: post.duplicateSources,
     }));
 
-    // Generate emotions summary
-    const emotionsSummary = generateEmotionsSummary(emotionResults);
+    // Generate emotions summary (a collapsed story counts once, or once per copy)
+    const weights = summaryCount === 'copies' ? posts.map(post => 1 + (post.duplicateCount ?? 0)) : undefined;
+    const emotionsSummary = generateEmotionsSummary(emotionResults, weights);
+    // Same summary per news category, e.g. health vs. sports headlines
+    const categoryBreakdown = generateEmotionsBreakdown(emotionResults, posts.map(post => post.category), weights);
+    // ...and per language, e.g. how local-language coverage differs from English coverage
+    const languageBreakdown = generateEmotionsBreakdown(emotionResults, posts.map(post => post.language || 'unknown'), weights);
 
     // =====================
     // STEP 6 — FORMAT MAP DATA (SMART SPREADING)
     // =====================
-    // Transform posts to format expected by formatMapData
-    // formatMapData will apply smart spreading around region center
-    const postsForMap = postsWithEmotions.map(post => ({
-      id: post.id,
-      text: post.text,
-      created_at: post.created_at,
-      author_id: post.author_id,
-      emotion: post.emotion,
-      // Don't set lat/lon - let formatMapData apply smart spreading
-      source: post.source,
-      source_file: undefined,
-    }));
-
     // formatMapData now expects UnifiedPost[] format, but we have postsWithEmotions
     // Convert to UnifiedPost format for formatMapData
-    const unifiedPosts = postsWithEmotions.map((post, index) => ({
+    const unifiedPosts: UnifiedPost[] = postsWithEmotions.map((post, index) => ({
       text: post.text,
       createdAt: post.created_at,
-      source: post.source as 'gdelt',
+      source: post.source,
       uri: post.uri,
       cid: post.cid || `post-${index}`,
-      lat: null, // Will be spread around region center
-      lon: null,
-      tone: undefined,
+      // Located posts (GDELT GEO mentions, dataset rows) keep their coordinates;
+      // the rest are spread around the region center
+      lat: posts[index].lat,
+      lon: posts[index].lon,
+      tone: posts[index].tone,
     }));
 
-    // formatMapData will spread posts naturally around region center
-    const geoJson = await formatMapData(unifiedPosts, { lat: regionCoords.lat, lng: regionCoords.lon });
+    // formatMapData will spread unlocated posts naturally around region center; it reuses
+    // the classifications above so map colors match posts[].emotion and emotionsSummary
+    const geoJson = await formatMapData(unifiedPosts, { lat: regionCoords.lat, lng: regionCoords.lon }, emotionResults);
 
     // =====================
     // STEP 7 — PREPARE TOP POSTS (HIGHEST CONFIDENCE)
@@ -260,6 +330,7 @@ export async function POST(request: NextRequest) {
       .map(post => ({
         text: post.text, // Return full text, no truncation
         emotion: post.emotion.emotion,
+        excerpt: post.fullText, // Article lead, so the chat can quote more than the headline
       }));
 
     // =====================
@@ -270,8 +341,17 @@ export async function POST(request: NextRequest) {
       coordinates: regionCoords,
       geoJson,
       emotionsSummary,
+      summaryCount,
+      categoryBreakdown,
+      languageBreakdown,
+      languagePolicy,
+      languages: languages ?? null,
       topPosts,
       posts: postsWithEmotions,
+      sources,
+      sourceCounts,
+      sourceErrors,
+      duplicatesCollapsed,
     };
 
     // =====================
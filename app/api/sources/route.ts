@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getDefaultSources, listSources } from '@/utils/sources';
+
+// =====================
+// SOURCES API
+// =====================
+// GET /api/sources - every registered source adapter with its configuration,
+// health and quota, plus the sources /api/posts uses when a request doesn't choose
+
+export async function GET() {
+  return NextResponse.json({
+    ok: true,
+    sources: listSources(),
+    defaultSources: getDefaultSources(),
+  });
+}
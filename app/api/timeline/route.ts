@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCountryNameForGdelt } from '@/utils/countryMap';
+import { validateTimespan } from '@/utils/gdeltQuery';
+import { fetchGdeltTimeline, type GdeltTimelineMode, type GdeltTimelineSeries } from '@/utils/gdeltTimeline';
+
+// =====================
+// TIMELINE API
+// =====================
+// GET /api/timeline?region=France&modes=tone,volume,sourcecountry&timespan=1w
+// GDELT coverage over time for a region's country: average tone, volume, and
+// volume split by outlet country. Region is optional (global coverage without it).
+
+// =====================
+// TYPES
+// =====================
+type TimelineKey = 'tone' | 'volume' | 'sourcecountry';
+
+interface TimelineResponse {
+  region: string;
+  country: string | null; // Country GDELT was queried for, null for global
+  timespan: string;
+  timelines: Partial<Record<TimelineKey, GdeltTimelineSeries[]>>;
+  errors: Partial<Record<TimelineKey, string>>; // Modes whose fetch failed
+}
+
+interface CacheEntry {
+  timestamp: number;
+  data: TimelineResponse;
+}
+
+const MODES: Record<TimelineKey, GdeltTimelineMode> = {
+  tone: 'TimelineTone',
+  volume: 'TimelineVol',
+  sourcecountry: 'TimelineSourceCountry',
+};
+
+const DEFAULT_TIMESPAN = '1w';
+
+// Timelines move in 15-minute steps - no need to ask GDELT more often than that
+const CACHE_TTL = 10 * 60 * 1000;
+const cache: Record<string, CacheEntry> = {};
+
+/**
+ * Parse the comma-separated modes parameter (defaults to every mode)
+ */
+function parseModes(value: string | null): { modes: TimelineKey[] } | { error: string } {
+  const known = Object.keys(MODES) as TimelineKey[];
+  if (!value) {
+    return { modes: known };
+  }
+
+  const requested = value.split(',').map(mode => mode.trim().toLowerCase()).filter(Boolean);
+  const unknown = requested.filter(mode => !known.includes(mode as TimelineKey));
+  if (unknown.length > 0) {
+    return { error: `Unknown mode(s): ${unknown.join(', ')}. Use: ${known.join(', ')}` };
+  }
+  return { modes: known.filter(mode => requested.includes(mode)) };
+}
+
+// =====================
+// MAIN GET HANDLER
+// =====================
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const regionQuery = (params.get('region') || '').trim();
+
+    const parsedModes = parseModes(params.get('modes'));
+    if ('error' in parsedModes) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsedModes.error },
+        { status: 400 }
+      );
+    }
+    const { modes } = parsedModes;
+
+    let timespan: string;
+    try {
+      timespan = validateTimespan(params.get('timespan') || DEFAULT_TIMESPAN);
+    } catch (error) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error instanceof Error ? error.message : 'Invalid timespan' },
+        { status: 400 }
+      );
+    }
+
+    // GDELT filters by country - cities and states map to theirs
+    const country = regionQuery ? getCountryNameForGdelt(regionQuery) ?? null : null;
+    if (regionQuery && !country) {
+      return NextResponse.json(
+        { error: 'Region not found or invalid', details: `No GDELT country for "${regionQuery}"` },
+        { status: 404 }
+      );
+    }
+
+    const cacheKey = `${country ? `country:${country.toLowerCase()}` : 'global'}|${modes.join(',')}|${timespan}`;
+    const cachedEntry = cache[cacheKey];
+    if (cachedEntry) {
+      if (Date.now() - cachedEntry.timestamp < CACHE_TTL) {
+        return NextResponse.json({ ...cachedEntry.data, region: regionQuery || 'Global' });
+      }
+      delete cache[cacheKey];
+    }
+
+    const results = await Promise.allSettled(
+      modes.map(mode => fetchGdeltTimeline(MODES[mode], country ?? undefined, { timespan }, { smooth: mode === 'tone' ? 3 : undefined }))
+    );
+
+    const data: TimelineResponse = {
+      region: regionQuery || 'Global',
+      country,
+      timespan,
+      timelines: {},
+      errors: {},
+    };
+    results.forEach((result, index) => {
+      const mode = modes[index];
+      if (result.status === 'fulfilled') {
+        data.timelines[mode] = result.value.series;
+      } else {
+        const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        console.error(`[Timeline] ${MODES[mode]} failed:`, message);
+        data.errors[mode] = message;
+      }
+    });
+
+    if (Object.keys(data.timelines).length === 0) {
+      return NextResponse.json(
+        { error: 'GDELT timeline unavailable', details: Object.values(data.errors).join('; ') },
+        { status: 502 }
+      );
+    }
+
+    // Partial results aren't cached, so a failed mode is retried on the next request
+    if (Object.keys(data.errors).length === 0) {
+      cache[cacheKey] = { timestamp: Date.now(), data };
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error in timeline API route:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,255 @@
 // =====================
 // TWEETS API ROUTE
 // =====================
-// Uses unified ingestion module to pull all sources,
-// run emotion classification, format into geojson, and return it
+// Serves a dataset as map-ready GeoJSON: the bundled disaster-tweets CSV, or an uploaded
+// dataset (see /api/datasets). Rows keep their real coordinates; rows without any are
+// spread around the region center when they mention the region.
+//
+// GET /api/tweets?region=Japan&page=1&pageSize=100
+//     &bbox=minLon,minLat,maxLon,maxLat   only located rows inside the box (instead of region)
+//     &dataset=<id>                       an uploaded dataset instead of the bundled CSV
+//
+// Rows are filtered while the file streams, so a page only reads as far as it needs to.
+// Pages are classified with the shared emotion classifier and cached (datasets don't change).
 
-import { ingestUnified } from "@/utils/ingestUnified";
-import { formatMapData } from "@/utils/formatMapData";
-import { geocodeRegion } from "@/utils/geocodeRegion";
+import fs from 'fs';
+import { classifyEmotionsBatch, generateEmotionsSummary, type EmotionResult } from '../../utils/classifyEmotion';
+import { formatMapData } from '@/utils/formatMapData';
+import { geocodeRegionBounds, isInBoundingBox, parseBoundingBox, type BoundingBox } from '@/utils/geocodeRegion';
+import { findDatasetPath, streamDataset, type DatasetStats, type TweetData } from '@/utils/loadDataset';
+import { getStoredDataset, streamStoredDataset } from '@/utils/datasetStore';
+import { extractMainRegion, filterByRegion } from '@/utils/regionFilter';
+import { normalizeLanguage } from '@/utils/languagePolicy';
+import type { UnifiedPost } from '@/utils/ingestUnified';
+import type { GeoJSON } from 'geojson';
 
+// =====================
+// TYPES
+// =====================
+interface RowFilter {
+  region?: string; // Rows mentioning the region (or tagged with it)
+  bbox?: BoundingBox | null; // Located rows must fall inside
+  locatedOnly: boolean; // Rows without coordinates can't be placed (no region center)
+}
+
+interface TweetsResponse {
+  region: string; // "Global" when no region was given
+  center: { lat: number; lon: number } | null;
+  bbox: BoundingBox | null;
+  dataset: { id: string | null; name: string }; // id is null for the bundled CSV
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  count: number; // Rows on this page
+  located: number; // Rows on this page with their own coordinates
+  geoJson: GeoJSON.FeatureCollection;
+  emotionsSummary: Record<string, number>;
+  topPosts: Array<{ text: string; emotion: string }>;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+// Rows filtered together - region name matching works on batches
+const FILTER_BATCH_SIZE = 1000;
+const CACHE_TTL = 10 * 60 * 1000;
+
+const cache: Record<string, { timestamp: number; data: TweetsResponse }> = {};
+
+// =====================
+// HELPER: PAGE THROUGH A DATASET
+// =====================
+/**
+ * Stream every row of the bundled CSV or an uploaded dataset
+ */
+function streamRows(datasetId: string | null, onRow: (row: TweetData) => boolean | void): Promise<DatasetStats> {
+  if (datasetId) {
+    return streamStoredDataset(datasetId, {}, onRow);
+  }
+  const csvPath = findDatasetPath() as string;
+  return streamDataset(fs.createReadStream(csvPath, 'utf-8'), { format: 'csv' }, onRow);
+}
+
+/**
+ * Keep the rows of a batch that pass the filter, in file order
+ */
+function filterBatch(rows: TweetData[], filter: RowFilter): TweetData[] {
+  const isLocated = (row: TweetData) => row.lat !== null && row.lon !== null;
+  const mainRegion = filter.region ? extractMainRegion(filter.region) : '';
+
+  // Rows placed by name: unlocated ones, and located ones when there's no box to test against
+  const byName = rows.filter(row => !isLocated(row) || !filter.bbox);
+  const named = new Set<TweetData>();
+  if (filter.region && !filter.locatedOnly) {
+    byName.filter(row => row.region?.toLowerCase().includes(mainRegion)).forEach(row => named.add(row));
+    filterByRegion(byName.filter(row => !row.region), filter.region).forEach(row => named.add(row));
+  }
+
+  return rows.filter(row => {
+    if (isLocated(row) && filter.bbox) {
+      return isInBoundingBox(row.lat as number, row.lon as number, filter.bbox);
+    }
+    return filter.locatedOnly ? isLocated(row) : named.has(row);
+  });
+}
+
+/**
+ * One page of matching rows
+ * Reads one match past the page so the caller knows whether another page exists
+ */
+async function findPage(
+  datasetId: string | null,
+  filter: RowFilter,
+  page: number,
+  pageSize: number
+): Promise<{ rows: TweetData[]; hasMore: boolean }> {
+  const start = (page - 1) * pageSize;
+  const wanted = start + pageSize + 1;
+  const matches: TweetData[] = [];
+  let batch: TweetData[] = [];
+
+  const flush = () => {
+    matches.push(...filterBatch(batch, filter));
+    batch = [];
+  };
+
+  await streamRows(datasetId, row => {
+    batch.push(row);
+    if (batch.length < FILTER_BATCH_SIZE) return true;
+    flush();
+    return matches.length < wanted;
+  });
+  if (batch.length > 0) flush();
+
+  return { rows: matches.slice(start, start + pageSize), hasMore: matches.length > start + pageSize };
+}
+
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 1 ? parsed : null;
+}
+
+// =====================
+// MAIN GET HANDLER
+// =====================
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
-    const region = (searchParams.get("region") || "united states").toLowerCase();
+    const region = (searchParams.get("region") || "").trim();
+    const datasetId = searchParams.get("dataset") || null;
+    const page = parsePositiveInt(searchParams.get("page"), 1);
+    const pageSize = parsePositiveInt(searchParams.get("pageSize"), DEFAULT_PAGE_SIZE);
+
+    if (page === null || pageSize === null || pageSize > MAX_PAGE_SIZE) {
+      return Response.json(
+        { error: "Invalid request", details: `page must be a positive integer and pageSize 1-${MAX_PAGE_SIZE}` },
+        { status: 400 }
+      );
+    }
+
+    const requestedBbox = searchParams.get("bbox");
+    const bboxParam = requestedBbox ? parseBoundingBox(requestedBbox) : null;
+    if (requestedBbox && !bboxParam) {
+      return Response.json(
+        { error: "Invalid request", details: "bbox must be minLon,minLat,maxLon,maxLat" },
+        { status: 400 }
+      );
+    }
 
-    // 1. Get geographic center for region
-    const regionCenter = await geocodeRegion(region);
+    // Which dataset
+    const stored = datasetId ? getStoredDataset(datasetId) : null;
+    if (datasetId && !stored) {
+      return Response.json(
+        { error: "Dataset not found", details: `No uploaded dataset with id "${datasetId}"` },
+        { status: 404 }
+      );
+    }
+    if (!datasetId && !findDatasetPath()) {
+      return Response.json(
+        { error: "Dataset not found", details: "The bundled disaster-tweets CSV is missing - upload a dataset instead" },
+        { status: 404 }
+      );
+    }
 
-    // 2. Ingest ALL data sources
-    const posts = await ingestUnified(region);
+    const cacheKey = [region.toLowerCase(), requestedBbox || "", datasetId || "bundled", page, pageSize].join("|");
+    const cached = cache[cacheKey];
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      console.log(`[Tweets] Cache hit: ${cacheKey}`);
+      return Response.json(cached.data);
+    }
 
-    // 3. Format into geojson for map
-    const geoJson = await formatMapData(posts, regionCenter);
+    // 1. Region center and bounds (an explicit bbox wins over the region's)
+    let center: { lat: number; lng: number } | null = null;
+    let bbox: BoundingBox | null = bboxParam;
+    if (region) {
+      try {
+        const location = await geocodeRegionBounds(region);
+        center = location.center;
+        bbox = bbox ?? location.bbox;
+      } catch (error) {
+        return Response.json(
+          { error: "Failed to geocode region", details: error instanceof Error ? error.message : String(error) },
+          { status: 404 }
+        );
+      }
+    }
 
-    return Response.json({ geoJson, count: posts.length });
+    // 2. One page of matching rows
+    const filter: RowFilter = {
+      region: region || undefined,
+      bbox,
+      // An explicit box only takes located rows; without a region there's no center to spread around
+      locatedOnly: !!bboxParam || !region,
+    };
+    const { rows, hasMore } = await findPage(datasetId, filter, page, pageSize);
+    console.log(`[Tweets] ${stored?.name || "bundled dataset"}: page ${page} has ${rows.length} rows for ${region || "global"}${bbox ? ` in [${bbox.join(", ")}]` : ""}`);
+
+    // 3. Classify with the shared classifier, then map
+    const emotions: EmotionResult[] = await classifyEmotionsBatch(rows.map(row => row.text));
+    const prefix = datasetId ? `dataset-${datasetId}` : "dataset";
+    const fetchedAt = new Date().toISOString();
+    const posts: UnifiedPost[] = rows.map((row, index) => ({
+      text: row.text,
+      createdAt: row.createdAt ?? fetchedAt,
+      source: "dataset",
+      uri: row.id ? `${prefix}:${row.id}` : `${prefix}-${(page - 1) * pageSize + index}`,
+      cid: `${prefix}-${(page - 1) * pageSize + index}`,
+      lat: row.lat,
+      lon: row.lon,
+      region: row.region,
+      language: normalizeLanguage(row.language),
+    }));
+    // Without a region only located rows are returned, so no center is needed to spread around
+    const geoJson = await formatMapData(posts, center ?? { lat: NaN, lng: NaN }, emotions);
+
+    const data: TweetsResponse = {
+      region: region || "Global",
+      center: center ? { lat: center.lat, lon: center.lng } : null,
+      bbox,
+      dataset: { id: datasetId, name: stored?.name || "Disaster tweets" },
+      page,
+      pageSize,
+      hasMore,
+      count: rows.length,
+      located: rows.filter(row => row.lat !== null).length,
+      geoJson,
+      emotionsSummary: generateEmotionsSummary(emotions),
+      topPosts: rows
+        .map((row, index) => ({ text: row.text, emotion: emotions[index].emotion, confidence: emotions[index].confidence }))
+        .sort((a, b) => b.confidence - a.confidence)
+        .map(({ text, emotion }) => ({ text, emotion })),
+    };
+
+    for (const key of Object.keys(cache)) {
+      if (Date.now() - cache[key].timestamp >= CACHE_TTL) delete cache[key];
+    }
+    cache[cacheKey] = { timestamp: Date.now(), data };
+    return Response.json(data);
   } catch (e) {
-    console.error("Unified ingestion error:", e);
-    return Response.json({ error: "Failed to process region" }, { status: 500 });
+    console.error("Dataset map error:", e);
+    return Response.json(
+      { error: "Failed to load dataset", details: e instanceof Error ? e.message : String(e) },
+      { status: 500 }
+    );
   }
 }
-
@@ -14,7 +14,7 @@ interface ChatBoxProps {
     hope: number;
     neutral: number;
   };
-  topTweets: Array<{ text: string; emotion: string }>;
+  topTweets: Array<{ text: string; emotion: string; excerpt?: string }>;
   region: string;
   loading?: boolean;
   currentRegion?: string;
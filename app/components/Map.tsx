@@ -142,8 +142,9 @@ export default function Map({ geoJson, center }: MapProps) {
             'circle-radius': 6,
             'circle-color': ['get', 'color'],
             'circle-opacity': 0.8,
-            'circle-stroke-width': 1,
-            'circle-stroke-color': '#ffffff',
+            // Social posts get a thicker Bluesky-blue ring so they stand out from news
+            'circle-stroke-width': ['match', ['get', 'sourceType'], 'social', 2, 1],
+            'circle-stroke-color': ['match', ['get', 'sourceType'], 'social', '#1185FE', '#ffffff'],
           },
         });
 
@@ -166,7 +167,9 @@ export default function Map({ geoJson, center }: MapProps) {
 
           const emotionText = escapeHtml(props.emotion || 'unknown');
           const textContent = escapeHtml(props.text || 'No preview available');
-          const sourceText = escapeHtml(props.source || 'unknown');
+          const sourceText = escapeHtml(
+            props?.sourceType ? `${props.source || 'unknown'} (${props.sourceType})` : props?.source || 'unknown'
+          );
           const url = props.url;
           const tone = props.tone;
 
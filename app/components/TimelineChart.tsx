@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+// =====================
+// TYPES
+// =====================
+type TimelineKey = 'tone' | 'volume' | 'sourcecountry';
+
+interface TimelineSeries {
+  name: string;
+  points: Array<{ date: string; value: number }>;
+}
+
+interface TimelineResponse {
+  region: string;
+  country: string | null;
+  timespan: string;
+  timelines: Partial<Record<TimelineKey, TimelineSeries[]>>;
+  errors: Partial<Record<TimelineKey, string>>;
+}
+
+interface TimelineChartProps {
+  region: string; // Region as scanned; empty for global
+}
+
+// =====================
+// CHART SETTINGS
+// =====================
+const TABS: Array<{ key: TimelineKey; label: string; unit: string }> = [
+  { key: 'tone', label: 'Tone', unit: 'avg tone' },
+  { key: 'volume', label: 'Volume', unit: '% of coverage' },
+  { key: 'sourcecountry', label: 'Sources', unit: '% of coverage' },
+];
+
+const SERIES_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d'];
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 36 };
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// =====================
+// TIMELINE CHART COMPONENT
+// =====================
+export default function TimelineChart({ region }: TimelineChartProps) {
+  // Result of the last fetch, tagged with its region so a new scan shows as loading
+  const [result, setResult] = useState<{ region: string; data: TimelineResponse | null; error: string | null } | null>(null);
+  const [tab, setTab] = useState<TimelineKey>('tone');
+  const [collapsed, setCollapsed] = useState(false);
+
+  // Refetch whenever a new region is scanned
+  useEffect(() => {
+    let cancelled = false;
+
+    const params = new URLSearchParams({ timespan: '1w' });
+    if (region) params.set('region', region);
+
+    fetch(`/api/timeline?${params.toString()}`)
+      .then(async res => {
+        const json = await res.json();
+        if (!res.ok) {
+          throw new Error(json.details || json.error || 'Failed to load timeline');
+        }
+        return json as TimelineResponse;
+      })
+      .then(json => {
+        if (!cancelled) setResult({ region, data: json, error: null });
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setResult({ region, data: null, error: err instanceof Error ? err.message : 'Failed to load timeline' });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region]);
+
+  const loading = result?.region !== region;
+  const data = loading ? null : result?.data ?? null;
+  const error = loading ? null : result?.error ?? null;
+  const series = data?.timelines[tab] ?? [];
+  const tabError = data?.errors[tab];
+  const unit = TABS.find(entry => entry.key === tab)?.unit ?? '';
+
+  // Shared scales across every series in the tab
+  const allPoints = series.flatMap(entry => entry.points);
+  const times = allPoints.map(point => new Date(point.date).getTime());
+  const values = allPoints.map(point => point.value);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  // Tone is centred on zero - keep the zero line in view
+  const minValue = Math.min(...values, tab === 'tone' ? 0 : Infinity);
+  const maxValue = Math.max(...values, tab === 'tone' ? 0 : -Infinity);
+
+  const x = (time: number) =>
+    PADDING.left + (maxTime > minTime ? (time - minTime) / (maxTime - minTime) : 0.5) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) =>
+    PADDING.top + (maxValue > minValue ? (maxValue - value) / (maxValue - minValue) : 0.5) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 w-[360px] rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white/95 dark:bg-black/90 shadow-lg">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-200 dark:border-zinc-800">
+        <div>
+          <h3 className="text-sm font-semibold text-black dark:text-zinc-50">News coverage</h3>
+          <p className="text-xs text-zinc-600 dark:text-zinc-400">
+            GDELT, last week{data?.country ? ` · ${data.country}` : ' · global'}
+          </p>
+        </div>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="text-xs text-zinc-600 dark:text-zinc-400 hover:text-black dark:hover:text-zinc-50 transition-colors"
+          aria-label={collapsed ? 'Show coverage timeline' : 'Hide coverage timeline'}
+        >
+          {collapsed ? 'Show' : 'Hide'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div className="p-3">
+          {/* Mode Tabs */}
+          <div className="flex gap-1 mb-2">
+            {TABS.map(entry => (
+              <button
+                key={entry.key}
+                onClick={() => setTab(entry.key)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  tab === entry.key
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+                }`}
+              >
+                {entry.label}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400 py-8 text-center">Loading timeline...</p>
+          ) : error || tabError ? (
+            <p className="text-xs text-red-600 dark:text-red-400 py-8 text-center">{error || tabError}</p>
+          ) : allPoints.length === 0 ? (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400 py-8 text-center">No coverage in this period</p>
+          ) : (
+            <>
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto text-zinc-400 dark:text-zinc-600">
+                {/* Y axis range */}
+                <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" fontSize="9" fill="currentColor">
+                  {maxValue.toFixed(tab === 'tone' ? 1 : 2)}
+                </text>
+                <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} textAnchor="end" fontSize="9" fill="currentColor">
+                  {minValue.toFixed(tab === 'tone' ? 1 : 2)}
+                </text>
+                {tab === 'tone' && (
+                  <line
+                    x1={PADDING.left}
+                    x2={WIDTH - PADDING.right}
+                    y1={y(0)}
+                    y2={y(0)}
+                    stroke="currentColor"
+                    strokeDasharray="2 2"
+                  />
+                )}
+                <line
+                  x1={PADDING.left}
+                  x2={WIDTH - PADDING.right}
+                  y1={HEIGHT - PADDING.bottom}
+                  y2={HEIGHT - PADDING.bottom}
+                  stroke="currentColor"
+                />
+
+                {/* X axis range */}
+                <text x={PADDING.left} y={HEIGHT - 4} fontSize="9" fill="currentColor">
+                  {formatDay(new Date(minTime).toISOString())}
+                </text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="currentColor">
+                  {formatDay(new Date(maxTime).toISOString())}
+                </text>
+
+                {series.map((entry, index) => (
+                  <polyline
+                    key={entry.name}
+                    fill="none"
+                    stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                    strokeWidth={1.5}
+                    strokeLinejoin="round"
+                    points={entry.points
+                      .map(point => `${x(new Date(point.date).getTime()).toFixed(1)},${y(point.value).toFixed(1)}`)
+                      .join(' ')}
+                  />
+                ))}
+              </svg>
+
+              {/* Legend */}
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                {series.map((entry, index) => (
+                  <span key={entry.name} className="flex items-center gap-1 text-xs text-zinc-600 dark:text-zinc-400">
+                    <span
+                      className="inline-block w-2 h-2 rounded-full"
+                      style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+                    />
+                    {entry.name}
+                  </span>
+                ))}
+                <span className="text-xs text-zinc-500 dark:text-zinc-500 ml-auto">{unit}</span>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from "react";
 import Map from "./components/Map";
 import ChatBox from "./components/ChatBox";
+import TimelineChart from "./components/TimelineChart";
 import type { GeoJSON } from "geojson";
 import type { Emotion } from "./utils/classifyEmotion";
 import { ClipLoader } from "react-spinners";
@@ -25,6 +26,7 @@ interface PostResponse {
   topPosts: Array<{
     text: string;
     emotion: string;
+    excerpt?: string; // Article lead paragraphs, when full text was fetched
   }>;
   posts: Array<{
     id: string;
@@ -35,6 +37,27 @@ interface PostResponse {
   }>;
 }
 
+// GET /api/tweets - one page of a dataset, classified and mapped
+interface DatasetPageResponse {
+  region: string;
+  center: { lat: number; lon: number } | null;
+  page: number;
+  hasMore: boolean;
+  count: number;
+  geoJson: GeoJSON.FeatureCollection;
+  emotionsSummary: EmotionsSummary;
+  topPosts: Array<{ text: string; emotion: string }>;
+}
+
+interface UploadedDataset {
+  id: string;
+  name: string;
+  rows: number;
+}
+
+// "live": sources fetched now (/api/posts); "dataset": the bundled or an uploaded corpus (/api/tweets)
+type ScanMode = "live" | "dataset";
+
 interface EmotionsSummary {
   anger: number;
   sadness: number;
@@ -67,11 +90,20 @@ export default function Home() {
   const [emotionsSummary, setEmotionsSummary] =
     useState<EmotionsSummary | null>(null);
   const [topPosts, setTopPosts] = useState<
-    Array<{ text: string; emotion: string }>
+    Array<{ text: string; emotion: string; excerpt?: string }>
   >([]);
   const [currentRegion, setCurrentRegion] = useState<string>("");
   const [loadingStep, setLoadingStep] = useState<string>("");
 
+  // Live sources vs. dataset mode
+  const [mode, setMode] = useState<ScanMode>("live");
+  const [datasets, setDatasets] = useState<UploadedDataset[]>([]);
+  const [selectedDataset, setSelectedDataset] = useState(""); // "" = bundled disaster tweets
+  const [datasetPage, setDatasetPage] = useState(0); // Last page loaded
+  // Region and dataset page 1 was loaded with - later pages must ask for the same rows
+  const [datasetQuery, setDatasetQuery] = useState<{ region: string; dataset: string } | null>(null);
+  const [hasMorePages, setHasMorePages] = useState(false);
+
   // Autocomplete state
   const [suggestions, setSuggestions] = useState<AutocompleteSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -88,10 +120,114 @@ export default function Home() {
 
   // Firehose removed - now using NewsAPI instead
 
+  // =====================
+  // MODE SWITCH
+  // =====================
+  const switchMode = (next: ScanMode) => {
+    if (next === mode) return;
+    setMode(next);
+    setError(null);
+    setOriginalGeoJson(null);
+    setCenter(null);
+    setEmotionsSummary(null);
+    setTopPosts([]);
+    setCurrentRegion("");
+    setDatasetPage(0);
+    setDatasetQuery(null);
+    setHasMorePages(false);
+
+    if (next === "dataset") {
+      // Uploaded datasets to choose from (the bundled one is always offered)
+      fetch("/api/datasets")
+        .then((response) => (response.ok ? response.json() : { datasets: [] }))
+        .then((data) => setDatasets(data.datasets || []))
+        .catch(() => setDatasets([]));
+    }
+  };
+
+  // =====================
+  // DATASET PAGES
+  // =====================
+  // Page 1 replaces the map; later pages add to it, for the region and dataset page 1 used
+  // (even if the inputs have changed since)
+  const loadDatasetPage = async (page: number) => {
+    setLoading(true);
+    setError(null);
+    setLoadingStep(page === 1 ? "Reading the dataset..." : "Loading more rows...");
+
+    const query = page === 1 || !datasetQuery
+      ? { region: region.trim(), dataset: selectedDataset }
+      : datasetQuery;
+
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (query.region) params.set("region", query.region);
+      if (query.dataset) params.set("dataset", query.dataset);
+
+      const response = await fetch(`/api/tweets?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || "Failed to load dataset");
+      }
+
+      const data: DatasetPageResponse = await response.json();
+      if (page === 1 && data.count === 0) {
+        throw new Error(
+          query.region
+            ? `No dataset rows found for "${query.region}".`
+            : "No dataset rows have coordinates. Enter a region to place rows that mention it."
+        );
+      }
+
+      const previous = page === 1 ? null : originalGeoJson;
+      const merged: GeoJSON.FeatureCollection = {
+        type: "FeatureCollection",
+        features: [...(previous?.features || []), ...data.geoJson.features],
+      };
+      const firstPoint = merged.features[0]?.geometry;
+
+      setOriginalGeoJson(merged);
+      setCenter(
+        data.center ||
+          (firstPoint?.type === "Point"
+            ? { lat: firstPoint.coordinates[1], lon: firstPoint.coordinates[0] }
+            : null)
+      );
+      setEmotionsSummary((prev) => {
+        if (page === 1 || !prev) return data.emotionsSummary;
+        const sum = { ...prev };
+        (Object.keys(sum) as Emotion[]).forEach((emotion) => {
+          sum[emotion] += data.emotionsSummary[emotion] || 0;
+        });
+        return sum;
+      });
+      setTopPosts((prev) => (page === 1 ? data.topPosts : [...prev, ...data.topPosts]));
+      setCurrentRegion(data.region);
+      setDatasetQuery(query);
+      setDatasetPage(page);
+      setHasMorePages(data.hasMore);
+      if (page === 1) setSelectedEmotions(new Set());
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to load dataset";
+      setError(errorMessage);
+      console.error("Error loading dataset:", err);
+    } finally {
+      setLoading(false);
+      setLoadingStep("");
+    }
+  };
+
   // =====================
   // HANDLE SCAN FUNCTION
   // =====================
   const handleScan = async () => {
+    if (mode === "dataset") {
+      // Region is optional here - without one, every row with coordinates is shown
+      await loadDatasetPage(1);
+      return;
+    }
+
     // Validate region is not empty
     if (!region.trim()) {
       setError("Please enter a region");
@@ -298,13 +434,13 @@ export default function Home() {
       } else if (e.key === "Enter" && selectedIndex >= 0) {
         e.preventDefault();
         handleSelectSuggestion(suggestions[selectedIndex]);
-      } else if (e.key === "Enter" && !loading && region.trim()) {
+      } else if (e.key === "Enter" && !loading && (region.trim() || mode === "dataset")) {
         setShowSuggestions(false);
         handleScan();
       } else if (e.key === "Escape") {
         setShowSuggestions(false);
       }
-    } else if (e.key === "Enter" && !loading && region.trim()) {
+    } else if (e.key === "Enter" && !loading && (region.trim() || mode === "dataset")) {
       handleScan();
     }
   };
@@ -441,11 +577,33 @@ export default function Home() {
           </div>
         )}
         <div className="flex gap-2 items-start">
+          {/* Live sources / dataset toggle */}
+          <div className="flex shrink-0 rounded-lg border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+            {(["live", "dataset"] as ScanMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => switchMode(option)}
+                disabled={loading}
+                className={`px-3 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+                  mode === option
+                    ? "bg-blue-600 text-white"
+                    : "bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                }`}
+              >
+                {option === "live" ? "Live sources" : "Dataset"}
+              </button>
+            ))}
+          </div>
           <div className="flex-1 max-w-md relative">
             <input
               ref={inputRef}
               type="text"
-              placeholder="Enter country (e.g. United States, France, Japan)..."
+              placeholder={
+                mode === "dataset"
+                  ? "Region to filter rows by (optional)..."
+                  : "Enter country (e.g. United States, France, Japan)..."
+              }
               value={region}
               onChange={(e) => {
                 setRegion(e.target.value);
@@ -498,13 +656,39 @@ export default function Home() {
                 : "Start typing to see location suggestions"}
             </p>
           </div>
+          {mode === "dataset" && (
+            <select
+              value={selectedDataset}
+              onChange={(e) => setSelectedDataset(e.target.value)}
+              disabled={loading}
+              className="border border-zinc-300 dark:border-zinc-700 px-3 py-2 rounded-lg bg-white dark:bg-zinc-900 text-black dark:text-zinc-50 disabled:opacity-50"
+            >
+              <option value="">Disaster tweets (bundled)</option>
+              {datasets.map((dataset) => (
+                <option key={dataset.id} value={dataset.id}>
+                  {dataset.name} ({dataset.rows} rows)
+                </option>
+              ))}
+            </select>
+          )}
           <button
             onClick={handleScan}
-            disabled={loading || !region.trim()}
+            disabled={loading || (mode === "live" && !region.trim())}
             className="bg-blue-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap mt-0"
           >
-            {loading ? "Collecting posts…" : "Scan Emotions"}
+            {loading
+              ? mode === "dataset" ? "Loading rows…" : "Collecting posts…"
+              : mode === "dataset" ? "Map Dataset" : "Scan Emotions"}
           </button>
+          {mode === "dataset" && hasMorePages && (
+            <button
+              onClick={() => loadDatasetPage(datasetPage + 1)}
+              disabled={loading}
+              className="border border-blue-600 text-blue-600 dark:text-blue-400 px-4 py-2 rounded-lg font-medium hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+            >
+              Load more
+            </button>
+          )}
         </div>
 
         {/* Emotion Filter Pills */}
@@ -618,6 +802,11 @@ export default function Home() {
           ) : (
             <Map geoJson={null} center={mapCenter} />
           )}
+
+          {/* Coverage Timeline (GDELT tone/volume for the scanned region) */}
+          {mode === "live" && currentRegion && (
+            <TimelineChart region={currentRegion === "Global" ? "" : currentRegion} />
+          )}
         </div>
 
         {/* Chat Sidebar */}
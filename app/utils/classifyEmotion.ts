@@ -156,9 +156,10 @@ export async function classifyEmotionsBatch(
 /**
  * Generates an emotion summary from an array of emotion results
  * @param emotions - Array of emotion results
+ * @param weights - Optional count per result, in the same order (e.g. copies of a syndicated story); default 1
  * @returns Object with counts for each emotion
  */
-export function generateEmotionsSummary(emotions: EmotionResult[]): Record<Emotion, number> {
+export function generateEmotionsSummary(emotions: EmotionResult[], weights?: number[]): Record<Emotion, number> {
   const summary: Record<Emotion, number> = {
     anger: 0,
     sadness: 0,
@@ -168,12 +169,38 @@ export function generateEmotionsSummary(emotions: EmotionResult[]): Record<Emoti
     neutral: 0,
   };
 
-  emotions.forEach(({ emotion }) => {
+  emotions.forEach(({ emotion }, index) => {
     if (emotion in summary) {
-      summary[emotion]++;
+      summary[emotion] += weights?.[index] ?? 1;
     }
   });
 
   return summary;
 }
 
+/**
+ * Generates an emotion summary per group (e.g. per news category)
+ * @param emotions - Array of emotion results
+ * @param groups - Group of each result, in the same order; results without a group are left out
+ * @param weights - Optional count per result, as in generateEmotionsSummary
+ * @returns Object with an emotion summary for each group
+ */
+export function generateEmotionsBreakdown(
+  emotions: EmotionResult[],
+  groups: Array<string | null | undefined>,
+  weights?: number[]
+): Record<string, Record<Emotion, number>> {
+  const byGroup: Record<string, { results: EmotionResult[]; weights: number[] }> = {};
+
+  emotions.forEach((result, index) => {
+    const group = groups[index];
+    if (!group) return;
+    const entry = (byGroup[group] ||= { results: [], weights: [] });
+    entry.results.push(result);
+    entry.weights.push(weights?.[index] ?? 1);
+  });
+
+  return Object.fromEntries(
+    Object.entries(byGroup).map(([group, entry]) => [group, generateEmotionsSummary(entry.results, entry.weights)])
+  );
+}
@@ -0,0 +1,30 @@
+// =====================
+// ADMIN TOKEN CHECK
+// =====================
+// Shared by the routes that change server state (/api/firehose, /api/datasets).
+// The token is sent as "Authorization: Bearer <token>" or "x-admin-token: <token>"
+// and compared in constant time.
+
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Whether the request carries the token held in an environment variable
+ * @param request - Incoming request
+ * @param envVar - Variable holding the expected token, e.g. "FIREHOSE_ADMIN_TOKEN"
+ * @returns false if the variable isn't set, so an unconfigured token never matches
+ */
+export function isAuthorized(request: Request, envVar: string): boolean {
+  const expected = process.env[envVar];
+  if (!expected) {
+    return false;
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const provided = header.startsWith('Bearer ')
+    ? header.slice('Bearer '.length).trim()
+    : request.headers.get('x-admin-token') || '';
+
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,143 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { fetchArticleText } from './articleExtractor';
+
+// =====================
+// FIXTURE SERVER
+// =====================
+// A small news site on 127.0.0.1 - fetches pass allowPrivateHosts so it can be reached.
+
+const PARAGRAPH = 'Residents described the flood waters rising quickly overnight, forcing families onto rooftops across the valley.';
+
+function page(body: string, head: string = ''): string {
+  return `<html><head>${head}<title>Fixture</title></head><body><nav><a href="/">Home</a></nav><article>${body}</article></body></html>`;
+}
+
+const routes: Record<string, (res: http.ServerResponse) => void> = {
+  '/robots.txt': res => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('User-agent: *\nDisallow: /\n\nUser-agent: PulseLens\nDisallow: /private\n');
+  },
+  '/news/flood': res => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(page(`<p>${PARAGRAPH}</p><p>Cookies help us deliver our services.</p>`));
+  },
+  '/private/draft': res => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(page(`<p>${PARAGRAPH}</p>`));
+  },
+  '/news/header-charset': res => {
+    // windows-1252: 0x93/0x94 are curly quotes, 0xE9 is "é"
+    const text = Buffer.from(`${PARAGRAPH} The caf\xe9 owner said \x93we lost everything\x94.`, 'latin1');
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=windows-1252' });
+    res.end(Buffer.concat([Buffer.from('<html><body><article><p>'), text, Buffer.from('</p></article></body></html>')]));
+  },
+  '/news/meta-charset': res => {
+    // No charset in the header - <meta charset> names ISO-8859-1
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(Buffer.from(page(`<p>${PARAGRAPH} Na\xefve forecasts missed it.</p>`, '<meta charset="iso-8859-1">'), 'latin1'));
+  },
+  '/news/long': res => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(page(Array.from({ length: 500 }, (_, i) => `<p>${i}: ${PARAGRAPH}</p>`).join('')));
+  },
+  '/news/slow': res => {
+    setTimeout(() => {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(page(`<p>${PARAGRAPH}</p>`));
+    }, 2000);
+  },
+  '/news/bounce': res => {
+    res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+    res.end();
+  },
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const route = routes[req.url || ''];
+    if (route) {
+      route(res);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// =====================
+// TESTS
+// =====================
+describe('fetchArticleText', () => {
+  it('extracts the article text and drops boilerplate', async () => {
+    const extract = await fetchArticleText(`${baseUrl}/news/flood`, { allowPrivateHosts: true });
+
+    expect(extract.title).toBe('Fixture');
+    expect(extract.text).toBe(PARAGRAPH);
+    expect(extract.charset).toBe('utf-8');
+    expect(extract.truncated).toBe(false);
+  });
+
+  it('honours the robots.txt group for our user agent', async () => {
+    await expect(fetchArticleText(`${baseUrl}/private/draft`, { allowPrivateHosts: true }))
+      .rejects.toThrow('robots.txt disallows /private/draft');
+
+    const extract = await fetchArticleText(`${baseUrl}/private/draft`, { allowPrivateHosts: true, respectRobots: false });
+    expect(extract.text).toBe(PARAGRAPH);
+  });
+
+  it('decodes with the charset from Content-Type, then <meta>', async () => {
+    const fromHeader = await fetchArticleText(`${baseUrl}/news/header-charset`, { allowPrivateHosts: true });
+    expect(fromHeader.charset).toBe('windows-1252');
+    expect(fromHeader.text).toContain('The café owner said “we lost everything”.');
+
+    const fromMeta = await fetchArticleText(`${baseUrl}/news/meta-charset`, { allowPrivateHosts: true });
+    expect(fromMeta.charset).toBe('iso-8859-1');
+    expect(fromMeta.text).toContain('Naïve forecasts');
+  });
+
+  it('stops reading at the size limit', async () => {
+    const maxBytes = 4096;
+    const extract = await fetchArticleText(`${baseUrl}/news/long`, { allowPrivateHosts: true, maxBytes, maxChars: 300 });
+
+    expect(extract.truncated).toBe(true);
+    expect(extract.text.length).toBeLessThan(maxBytes);
+    expect(extract.text.startsWith(`0: ${PARAGRAPH}`)).toBe(true);
+    expect(extract.lead.length).toBeLessThanOrEqual(300);
+  });
+
+  it('times out slow pages', async () => {
+    await expect(fetchArticleText(`${baseUrl}/news/slow`, { allowPrivateHosts: true, timeoutMs: 200 }))
+      .rejects.toThrow();
+  });
+
+  it('refuses private hosts, including as a redirect target', async () => {
+    await expect(fetchArticleText(`${baseUrl}/news/flood`, { allowPrivateHosts: false }))
+      .rejects.toThrow('Not a fetchable article URL');
+
+    // A public-looking article URL, served by the fixture, that redirects to the metadata address
+    const realFetch = globalThis.fetch;
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation((input, init) =>
+      realFetch(String(input).replace('http://news.example', baseUrl), init)
+    );
+
+    await expect(fetchArticleText('http://news.example/news/bounce', { allowPrivateHosts: false, respectRobots: false }))
+      .rejects.toThrow('Redirected to a non-fetchable URL: http://169.254.169.254/latest/meta-data/');
+    expect(fetchSpy.mock.calls.map(([input]) => String(input))).toEqual(['http://news.example/news/bounce']);
+  });
+});
@@ -0,0 +1,515 @@
+// =====================
+// ARTICLE TEXT EXTRACTION
+// =====================
+// Optional enrichment for news items: GDELT gives us a headline, NewsAPI a title and
+// a one-line description - often too little to carry an emotion. This fetches the
+// article page and pulls out its main readable text:
+// - robots.txt is honoured (per origin, cached) for our user agent
+// - redirects are followed by hand, so every hop is checked before it's requested
+// - requests time out, and bodies are cut off at a size limit while streaming
+// - the charset comes from Content-Type, then <meta charset>, then UTF-8
+// - boilerplate (scripts, navigation, footers, cookie banners, link lists) is dropped
+//   and the text is scoped to <article> / <main> when the page has one
+//
+// The lead paragraphs end up on UnifiedPost.fullText, where emotion classification
+// and the chat context pick them up.
+//
+// Optional environment variables:
+// - ARTICLE_FULLTEXT ("true" to enrich /api/posts news items by default)
+// - ARTICLE_ALLOW_PRIVATE_HOSTS ("true" to allow localhost/private addresses, e.g. for fixture servers)
+
+import { decodeEntities } from './feedParser';
+import { getSourceKind } from './sources';
+import type { UnifiedPost } from './ingestUnified';
+
+export const ARTICLE_USER_AGENT = 'PulseLens/0.1 (article text extraction)';
+// Token matched against robots.txt User-agent lines
+const ROBOTS_AGENT = 'pulselens';
+
+const DEFAULT_TIMEOUT_MS = 8 * 1000;
+const DEFAULT_MAX_BYTES = 2 * 1024 * 1024;
+const DEFAULT_MAX_CHARS = 1500;
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHED_EXTRACTS = 2000;
+const MAX_REDIRECTS = 5;
+// Paragraphs shorter than this are captions, bylines and buttons rather than prose
+const MIN_PARAGRAPH_CHARS = 40;
+
+export interface ArticleFetchOptions {
+  timeoutMs?: number; // Each robots.txt request, and the page with all its redirects (default 8s)
+  maxBytes?: number; // Stop reading the page after this many bytes (default 2 MB)
+  maxChars?: number; // Length of the lead kept on the post (default 1500)
+  respectRobots?: boolean; // Default true
+  allowPrivateHosts?: boolean; // Default ARTICLE_ALLOW_PRIVATE_HOSTS
+}
+
+export interface ArticleExtract {
+  url: string; // Final URL after redirects
+  title: string | null;
+  text: string; // Main text, paragraphs separated by blank lines
+  lead: string; // First paragraphs, up to maxChars
+  charset: string;
+  truncated: boolean; // The page was longer than maxBytes
+}
+
+export interface EnrichmentStats {
+  attempted: number;
+  enriched: number;
+  failed: number;
+  skipped: number; // Posts without an article URL (or over the cap)
+}
+
+export interface EnrichmentOptions extends ArticleFetchOptions {
+  concurrency?: number; // Pages fetched at once (default 4)
+  maxArticles?: number; // Cap on pages fetched per call (default 100)
+}
+
+interface RobotsRules {
+  rules: Array<{ allow: boolean; path: string }>;
+  fetchedAt: number;
+}
+
+const robotsCache = new Map<string, RobotsRules>();
+const extractCache = new Map<string, ArticleExtract>();
+
+// =====================
+// TEXT EXTRACTION
+// =====================
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'button', 'select', 'nav', 'header', 'footer', 'aside', 'figure'];
+const BOILERPLATE_PATTERN = /\b(cookies?|subscribe|newsletter|sign up|log in|all rights reserved|advertisement|share this|related articles?)\b/i;
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Inner HTML of the first element with the given tag, or null
+ */
+function firstElement(html: string, tag: string): string | null {
+  const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? match[1] : null;
+}
+
+/**
+ * Share of a paragraph's text that sits inside links (menus and "read more" lists are mostly links)
+ */
+function linkDensity(paragraphHtml: string, textLength: number): number {
+  if (textLength === 0) return 1;
+  const linkText = [...paragraphHtml.matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/gi)]
+    .reduce((sum, match) => sum + stripTags(match[1]).length, 0);
+  return linkText / textLength;
+}
+
+/**
+ * Extract the title and main readable text from an HTML page
+ * @returns Paragraphs of prose in document order (empty if nothing looked like an article)
+ */
+export function extractArticleText(html: string): { title: string | null; paragraphs: string[] } {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  for (const tag of BOILERPLATE_TAGS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+  }
+
+  const ogTitle = html.match(/<meta[^>]+property=["']og:title["'][^>]*content=["']([^"']*)["']/i)?.[1];
+  const titleTag = firstElement(html, 'title');
+  const title = ogTitle ? decodeEntities(ogTitle).trim() : titleTag ? stripTags(titleTag) : null;
+
+  // Prefer the article body when the page marks it up
+  const scope = firstElement(cleaned, 'article') ?? firstElement(cleaned, 'main') ?? firstElement(cleaned, 'body') ?? cleaned;
+
+  const paragraphs: string[] = [];
+  for (const match of scope.matchAll(/<(p|h2|h3|blockquote|li)\b[^>]*>([\s\S]*?)<\/\1>/gi)) {
+    const text = stripTags(match[2]);
+    const isHeading = match[1].toLowerCase().startsWith('h');
+    if (text.length < (isHeading ? 10 : MIN_PARAGRAPH_CHARS)) continue;
+    if (linkDensity(match[2], text.length) > 0.5) continue;
+    if (text.length < 200 && BOILERPLATE_PATTERN.test(text)) continue;
+    if (paragraphs[paragraphs.length - 1] === text) continue;
+    paragraphs.push(text);
+  }
+
+  // No paragraph markup (some CMSs use bare <div>s and <br>s) - fall back to the scope's text
+  if (paragraphs.length === 0) {
+    const text = stripTags(scope);
+    if (text.length >= MIN_PARAGRAPH_CHARS * 3) {
+      paragraphs.push(text);
+    }
+  }
+
+  return { title: title || null, paragraphs };
+}
+
+/**
+ * Join paragraphs up to a character budget, cutting the last one at a word boundary
+ */
+export function leadParagraphs(paragraphs: string[], maxChars: number = DEFAULT_MAX_CHARS): string {
+  let lead = '';
+  for (const paragraph of paragraphs) {
+    const next = lead ? `${lead}\n\n${paragraph}` : paragraph;
+    if (next.length <= maxChars) {
+      lead = next;
+      continue;
+    }
+    if (!lead) {
+      const cut = paragraph.slice(0, maxChars);
+      lead = `${cut.slice(0, Math.max(cut.lastIndexOf(' '), maxChars / 2))}…`;
+    }
+    break;
+  }
+  return lead;
+}
+
+// =====================
+// FETCHING
+// =====================
+function allowPrivateHosts(options: ArticleFetchOptions): boolean {
+  return options.allowPrivateHosts ?? process.env.ARTICLE_ALLOW_PRIVATE_HOSTS === 'true';
+}
+
+/**
+ * Whether a hostname is loopback, link-local or in a private range
+ * Only literal addresses and localhost are recognized - names aren't resolved
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+  if (host.includes(':')) {
+    // IPv4-mapped (::ffff:127.0.0.1, which URL normalizes to ::ffff:7f00:1) - check the IPv4 address
+    const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mapped) {
+      const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+      return isPrivateHost(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    // IPv6: unspecified, loopback, unique local (fc00::/7), link-local
+    return host === '::' || host === '::1' || /^f[cd][0-9a-f]{0,2}:/.test(host) || host.startsWith('fe80:');
+  }
+  const octets = host.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(octet => !Number.isInteger(octet))) {
+    return false;
+  }
+  const [a, b] = octets;
+  return a === 127 || a === 10 || a === 0 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+/**
+ * Article URL to fetch, or null if it isn't a public http(s) URL
+ */
+function articleUrl(value: string, options: ArticleFetchOptions): URL | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  if (!allowPrivateHosts(options) && isPrivateHost(url.hostname)) return null;
+  return url;
+}
+
+/**
+ * Parse the robots.txt groups that apply to us (our token, else "*")
+ */
+export function parseRobots(text: string): Array<{ allow: boolean; path: string }> {
+  const groups: Array<{ agents: string[]; rules: Array<{ allow: boolean; path: string }> }> = [];
+  let current: { agents: string[]; rules: Array<{ allow: boolean; path: string }> } | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow allows everything
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    }
+  }
+
+  const ours = groups.filter(group => group.agents.some(agent => agent !== '*' && ROBOTS_AGENT.includes(agent)));
+  const chosen = ours.length > 0 ? ours : groups.filter(group => group.agents.includes('*'));
+  return chosen.flatMap(group => group.rules);
+}
+
+/**
+ * Whether robots rules allow a path - the longest matching rule wins, Allow on ties
+ */
+export function robotsAllows(rules: Array<{ allow: boolean; path: string }>, path: string): boolean {
+  let best: { allow: boolean; length: number } | null = null;
+  for (const rule of rules) {
+    const pattern = new RegExp(
+      `^${rule.path.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\\\$$/, '$')}`
+    );
+    if (!pattern.test(path)) continue;
+    if (!best || rule.path.length > best.length || (rule.path.length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length: rule.path.length };
+    }
+  }
+  return best ? best.allow : true;
+}
+
+/**
+ * Check robots.txt for a URL (cached per origin; a missing or unreadable robots.txt allows everything)
+ */
+async function isAllowedByRobots(url: URL, timeoutMs: number): Promise<boolean> {
+  let robots = robotsCache.get(url.origin);
+  if (!robots || Date.now() - robots.fetchedAt > ROBOTS_TTL_MS) {
+    let rules: Array<{ allow: boolean; path: string }> = [];
+    try {
+      const res = await fetch(`${url.origin}/robots.txt`, {
+        headers: { 'User-Agent': ARTICLE_USER_AGENT },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (res.ok) {
+        rules = parseRobots(await res.text());
+      }
+    } catch {
+      // Unreachable robots.txt - treat as no rules
+    }
+    robots = { rules, fetchedAt: Date.now() };
+    robotsCache.set(url.origin, robots);
+  }
+  return robotsAllows(robots.rules, `${url.pathname}${url.search}`);
+}
+
+/**
+ * Read a response body up to maxBytes
+ */
+async function readLimited(res: Response, maxBytes: number): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+  if (!res.body) {
+    return { bytes: new Uint8Array(), truncated: false };
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  const reader = res.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      size = maxBytes;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return { bytes, truncated };
+}
+
+// windows-1252 characters for bytes 0x80-0x9F (undefined bytes map to themselves)
+const WINDOWS_1252_C1 = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f'
+  + '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+// Labels browsers decode as windows-1252 (https://encoding.spec.whatwg.org/#names-and-labels)
+const WINDOWS_1252_LABELS = new Set(['windows-1252', 'cp1252', 'x-cp1252', 'iso-8859-1', 'iso8859-1', 'latin1', 'l1', 'us-ascii', 'ascii']);
+
+/**
+ * Decode with a charset label
+ * Node decodes windows-1252 bytes 0x80-0x9F as C1 controls, dropping smart quotes and dashes,
+ * so those labels are mapped by hand the way browsers do it
+ * @throws RangeError if the label is unknown
+ */
+function decodeWithLabel(bytes: Uint8Array, label: string): string {
+  if (!WINDOWS_1252_LABELS.has(label.toLowerCase())) {
+    return new TextDecoder(label).decode(bytes);
+  }
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    const chunk = Array.from(bytes.subarray(i, i + 8192), byte =>
+      byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_C1[byte - 0x80] : String.fromCharCode(byte)
+    );
+    text += chunk.join('');
+  }
+  return text;
+}
+
+/**
+ * Decode page bytes: charset from the Content-Type header, then <meta>, then UTF-8
+ */
+export function decodeHtml(bytes: Uint8Array, contentType: string | null): { html: string; charset: string } {
+  const fromHeader = contentType?.match(/charset=["']?([\w.:-]+)/i)?.[1];
+  // <meta charset> has to appear in the first 1024 bytes
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+  const fromMeta = head.match(/<meta[^>]+charset=["']?([\w.:-]+)/i)?.[1];
+
+  for (const label of [fromHeader, fromMeta]) {
+    if (!label) continue;
+    try {
+      return { html: decodeWithLabel(bytes, label), charset: label.toLowerCase() };
+    } catch {
+      // Unknown label - try the next one
+    }
+  }
+  return { html: new TextDecoder('utf-8').decode(bytes), charset: 'utf-8' };
+}
+
+/**
+ * Request a page, following up to MAX_REDIRECTS redirects by hand
+ * Each Location is checked with articleUrl (and robots.txt) before it's requested, so a
+ * public article URL can't bounce the server onto a private address
+ * @throws Error if a hop isn't fetchable or is disallowed, there are too many redirects,
+ * or the request fails or times out (the timeout covers the whole chain)
+ */
+async function fetchFollowingRedirects(target: URL, options: ArticleFetchOptions): Promise<{ res: Response; finalUrl: URL }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const signal = AbortSignal.timeout(timeoutMs);
+  let current = target;
+
+  for (let redirects = 0; ; redirects++) {
+    if ((options.respectRobots ?? true) && !(await isAllowedByRobots(current, timeoutMs))) {
+      throw new Error(`robots.txt disallows ${current.pathname}`);
+    }
+
+    const res = await fetch(current, {
+      headers: {
+        'Accept': 'text/html, application/xhtml+xml;q=0.9',
+        'User-Agent': ARTICLE_USER_AGENT,
+      },
+      redirect: 'manual',
+      signal,
+    });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get('location') : null;
+    if (!location) {
+      return { res, finalUrl: current };
+    }
+    await res.body?.cancel();
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    }
+    let next: URL | null = null;
+    try {
+      next = articleUrl(new URL(location, current).toString(), options);
+    } catch {
+      // Unparseable Location - reported below
+    }
+    if (!next) {
+      throw new Error(`Redirected to a non-fetchable URL: ${location}`);
+    }
+    current = next;
+  }
+}
+
+/**
+ * Fetch an article page and extract its main text
+ * Results are cached per URL
+ * @throws Error if the URL isn't fetchable, robots.txt disallows it, the request fails or
+ * times out, the response isn't HTML, or no article text was found
+ */
+export async function fetchArticleText(url: string, options: ArticleFetchOptions = {}): Promise<ArticleExtract> {
+  // Checked before the cache, so a page cached with allowPrivateHosts isn't served without it
+  const target = articleUrl(url, options);
+  if (!target) {
+    throw new Error(`Not a fetchable article URL: ${url}`);
+  }
+
+  const cached = extractCache.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const { res, finalUrl } = await fetchFollowingRedirects(target, options);
+  if (!res.ok) {
+    throw new Error(`${res.status} ${res.statusText}`);
+  }
+
+  const contentType = res.headers.get('content-type');
+  if (contentType && !/html|xml/i.test(contentType)) {
+    await res.body?.cancel();
+    throw new Error(`Not an HTML page (${contentType})`);
+  }
+
+  const { bytes, truncated } = await readLimited(res, options.maxBytes ?? DEFAULT_MAX_BYTES);
+  const { html, charset } = decodeHtml(bytes, contentType);
+  const { title, paragraphs } = extractArticleText(html);
+  if (paragraphs.length === 0) {
+    throw new Error('No article text found');
+  }
+
+  const extract: ArticleExtract = {
+    url: finalUrl.toString(),
+    title,
+    text: paragraphs.join('\n\n'),
+    lead: leadParagraphs(paragraphs, options.maxChars ?? DEFAULT_MAX_CHARS),
+    charset,
+    truncated,
+  };
+
+  extractCache.set(url, extract);
+  if (extractCache.size > MAX_CACHED_EXTRACTS) {
+    // Maps iterate in insertion order - drop the oldest
+    const oldest = extractCache.keys().next().value;
+    if (oldest !== undefined) extractCache.delete(oldest);
+  }
+  return extract;
+}
+
+// =====================
+// ENRICHMENT
+// =====================
+/**
+ * Whether /api/posts enriches news items when the request doesn't say (ARTICLE_FULLTEXT)
+ */
+export function isFullTextEnabledByDefault(): boolean {
+  return process.env.ARTICLE_FULLTEXT === 'true';
+}
+
+/**
+ * Fetch the linked article for each news post and store its lead on post.fullText
+ * Social posts and posts without an http(s) URL are left alone; failures are counted, not thrown
+ * @param posts - Posts to enrich in place
+ * @param options - Concurrency, caps and fetch options
+ */
+export async function enrichWithFullText(posts: UnifiedPost[], options: EnrichmentOptions = {}): Promise<EnrichmentStats> {
+  const maxArticles = options.maxArticles ?? 100;
+  const candidates = posts.filter(post =>
+    !post.fullText && getSourceKind(post.source) === 'news' && articleUrl(post.uri, options) !== null
+  );
+  const selected = candidates.slice(0, maxArticles);
+  const stats: EnrichmentStats = {
+    attempted: selected.length,
+    enriched: 0,
+    failed: 0,
+    skipped: posts.length - selected.length,
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < selected.length) {
+      const post = selected[next++];
+      try {
+        const extract = await fetchArticleText(post.uri, options);
+        post.fullText = extract.lead;
+        stats.enriched++;
+      } catch (err) {
+        stats.failed++;
+        console.warn(`[FullText] ${post.uri}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency ?? 4, selected.length)) }, worker));
+
+  console.log(`[FullText] Enriched ${stats.enriched}/${stats.attempted} articles (${stats.failed} failed, ${stats.skipped} skipped)`);
+  return stats;
+}
@@ -10,13 +10,60 @@
 // - BLUESKY_SERVICE_URL (defaults to "https://bsky.social" if not set)
 
 import { BskyAgent } from '@atproto/api';
+import { postFromRecord, type PostRecord } from './blueskyRecord';
+
+// Reference to another record by URI + CID (com.atproto.repo.strongRef)
+export interface StrongRef {
+  uri: string;
+  cid: string;
+}
+
+// Link card (app.bsky.embed.external)
+export interface ExternalLink {
+  uri: string;
+  title: string;
+  description: string;
+}
+
+// Network a buffered post came from - Mastodon statuses are stored in the same shape
+export type PostNetwork = 'bluesky' | 'mastodon';
 
 export interface BlueskyPost {
   text: string;
-  source: 'bluesky';
+  source: PostNetwork;
   createdAt: string;
   uri: string;
   cid: string;
+  // Fields below come from the app.bsky.feed.post record (all optional - older
+  // buffered/snapshotted posts and some API responses won't have them)
+  authorDid?: string;
+  langs?: string[]; // BCP-47 tags declared by the author's client, e.g. ["en", "pt-BR"]
+  reply?: { parent: StrongRef; root: StrongRef };
+  quote?: StrongRef; // Quoted post (app.bsky.embed.record / recordWithMedia)
+  externalLink?: ExternalLink;
+  imageAlts?: string[]; // Alt text of attached images/video
+  hashtags?: string[]; // From #tag facets and the record's tags field (lowercase, no "#")
+  mentions?: string[]; // DIDs from mention facets
+  links?: string[]; // URIs from link facets
+  labels?: string[]; // Self-labels set by the author, e.g. "nsfw", "graphic-media"
+}
+
+/**
+ * Map an AppView post view (feed item's `post`) to a BlueskyPost
+ * Posts without text come back with empty text so callers can filter them out
+ */
+function postFromFeedView(view: { uri?: string; cid?: string; author?: { did?: string }; record?: unknown }): BlueskyPost {
+  const uri = view.uri || '';
+  const cid = view.cid || '';
+  const record = (view.record || {}) as PostRecord;
+
+  return postFromRecord(record, { uri, cid, authorDid: view.author?.did }) ?? {
+    text: '',
+    source: 'bluesky',
+    createdAt: record.createdAt || new Date().toISOString(),
+    uri,
+    cid,
+  };
 }
 
 // =====================
@@ -58,6 +105,16 @@ export interface BlueskyRateLimitInfo {
   rateLimited: boolean;
 }
 
+// Most recent rate limit state reported by the API (for source health/quota)
+let lastRateLimit: BlueskyRateLimitInfo | null = null;
+
+/**
+ * Rate limit headers from the last search response, or null if none seen yet
+ */
+export function getLastRateLimit(): BlueskyRateLimitInfo | null {
+  return lastRateLimit;
+}
+
 // =====================
 // HELPER: GET AUTHENTICATED AGENT
 // =====================
@@ -141,20 +198,55 @@ function extractRateLimitInfo(error: any): BlueskyRateLimitInfo {
   return info;
 }
 
+export interface SearchPostsOptions {
+  since?: string; // ISO datetime or YYYY-MM-DD (inclusive)
+  until?: string; // ISO datetime or YYYY-MM-DD (exclusive)
+  lang?: string; // Language code, e.g. "en" or "pt"
+  sort?: 'top' | 'latest';
+}
+
+// app.bsky.feed.searchPosts returns at most 100 posts per page
+const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Check whether a buffered post satisfies the search options
+ */
+function matchesSearchOptions(post: BlueskyPost, options: SearchPostsOptions): boolean {
+  const created = new Date(post.createdAt).getTime();
+  if (options.since && created < new Date(options.since).getTime()) return false;
+  if (options.until && created >= new Date(options.until).getTime()) return false;
+  if (options.lang) {
+    const wanted = options.lang.toLowerCase();
+    if (!post.langs?.some(lang => lang.toLowerCase().split('-')[0] === wanted.split('-')[0])) return false;
+  }
+  return true;
+}
+
 /**
  * Search for posts on Bluesky by region/keyword
- * @param query - Search query (region name or keyword)
- * @param limit - Maximum number of posts to return
+ * Uses the AppView search endpoint (app.bsky.feed.searchPosts), so results
+ * don't depend on who the bot account follows
+ * @param query - Search query (region name or keyword; Lucene syntax is supported)
+ * @param limit - Maximum number of posts to return (paginates past 100 with the cursor)
  * @param useBuffer - Whether to use the post buffer (default: true)
+ * @param options - Time window, language and sort order
  * @returns Array of Bluesky posts
  */
-export async function searchPosts(query: string, limit: number = 50, useBuffer: boolean = true): Promise<BlueskyPost[]> {
+export async function searchPosts(
+  query: string,
+  limit: number = 50,
+  useBuffer: boolean = true,
+  options: SearchPostsOptions = {}
+): Promise<BlueskyPost[]> {
   // Try to use post buffer first if available
   if (useBuffer) {
     try {
       const { postBuffer } = await import('./blueskyFirehose');
       if (postBuffer.isActive()) {
-        const bufferedPosts = postBuffer.getPosts(query, limit);
+        const bufferedPosts = postBuffer
+          .getPosts(query, limit * 2, 'bluesky')
+          .filter(post => matchesSearchOptions(post, options))
+          .slice(0, limit);
         if (bufferedPosts.length > 0) {
           console.log(`[Search] Found ${bufferedPosts.length} posts from buffer for query: ${query}`);
           return bufferedPosts;
@@ -173,58 +265,74 @@ export async function searchPosts(query: string, limit: number = 50, useBuffer:
 
   const agent = await getAuthenticatedAgent();
 
+  const posts: BlueskyPost[] = [];
+  const seenUris = new Set<string>();
+  let cursor: string | undefined;
+  let page = 0;
+
   try {
-    console.log(`Searching Bluesky API for: ${query} (limit: ${limit})`);
-    
-    // Bluesky doesn't have a direct searchPosts endpoint in @atproto/api
-    // We'll use getTimeline and filter client-side, or use the searchActors method
-    // For now, let's fetch timeline and filter by query text
-    const response = await agent.getTimeline({
-      limit: Math.min(limit * 3, 100), // Fetch more to filter down
-    });
+    console.log(`Searching Bluesky API for: ${query} (limit: ${limit}${options.lang ? `, lang: ${options.lang}` : ''}${options.sort ? `, sort: ${options.sort}` : ''})`);
 
-    // Log rate limit info if available in response
-    if (response.headers) {
-      const rateLimitRemaining = response.headers.get?.('x-ratelimit-remaining');
-      const rateLimitLimit = response.headers.get?.('x-ratelimit-limit');
-      const rateLimitReset = response.headers.get?.('x-ratelimit-reset');
-      
-      if (rateLimitRemaining !== null || rateLimitLimit !== null) {
-        console.log(`Bluesky Rate Limits - Remaining: ${rateLimitRemaining || 'unknown'}/${rateLimitLimit || 'unknown'}, Reset: ${rateLimitReset || 'unknown'}`);
+    do {
+      // Every page after the first is a separate request against the rate limit
+      if (page > 0 && shouldThrottle()) {
+        console.warn(`[Search] Throttled after ${page} page(s), returning ${posts.length} posts`);
+        break;
       }
-    }
+      page++;
 
-    // Filter posts that contain the query text
-    const queryLower = query.toLowerCase();
-    const posts: BlueskyPost[] = response.data.feed
-      .map((feedItem: any) => {
-        const post = feedItem.post;
-        const text = post.record?.text || '';
-        const createdAt = post.record?.createdAt || new Date().toISOString();
-        const uri = post.uri || '';
-        const cid = post.cid || '';
-
-        return {
-          text,
-          source: 'bluesky' as const,
-          createdAt,
-          uri,
-          cid,
-        };
-      })
-      .filter((post: BlueskyPost) => {
-        // Filter by query text (case-insensitive)
-        return post.text.length > 0 && post.text.toLowerCase().includes(queryLower);
-      })
-      .slice(0, limit); // Limit results
-
-    console.log(`Found ${posts.length} posts for query: ${query}`);
-    return posts;
+      const response = await agent.app.bsky.feed.searchPosts({
+        q: query,
+        limit: Math.min(SEARCH_PAGE_SIZE, limit - posts.length),
+        cursor,
+        since: options.since,
+        until: options.until,
+        lang: options.lang,
+        sort: options.sort,
+      });
+
+      // Log rate limit info if available in response
+      if (response.headers) {
+        const rateLimitRemaining = response.headers['ratelimit-remaining'] || response.headers['x-ratelimit-remaining'];
+        const rateLimitLimit = response.headers['ratelimit-limit'] || response.headers['x-ratelimit-limit'];
+        const rateLimitReset = response.headers['ratelimit-reset'] || response.headers['x-ratelimit-reset'];
+
+        if (rateLimitRemaining !== undefined || rateLimitLimit !== undefined) {
+          console.log(`Bluesky Rate Limits - Remaining: ${rateLimitRemaining || 'unknown'}/${rateLimitLimit || 'unknown'}, Reset: ${rateLimitReset || 'unknown'}`);
+          lastRateLimit = {
+            remaining: rateLimitRemaining !== undefined ? parseInt(String(rateLimitRemaining)) : undefined,
+            limit: rateLimitLimit !== undefined ? parseInt(String(rateLimitLimit)) : undefined,
+            reset: rateLimitReset !== undefined ? String(rateLimitReset) : undefined,
+            rateLimited: false,
+          };
+        }
+      }
+
+      for (const view of response.data.posts) {
+        const post = postFromFeedView(view);
+        if (post.text.length > 0 && !seenUris.has(post.uri)) {
+          seenUris.add(post.uri);
+          posts.push(post);
+        }
+      }
+
+      // An empty page can still carry a cursor - stop rather than loop
+      cursor = response.data.posts.length > 0 ? response.data.cursor : undefined;
+    } while (cursor && posts.length < limit);
+
+    console.log(`Found ${posts.length} posts for query: ${query} (${page} page(s))`);
+    return posts.slice(0, limit);
   } catch (error: any) {
     const rateLimitInfo = extractRateLimitInfo(error);
-    
+
     if (rateLimitInfo.rateLimited) {
       console.error('Bluesky API rate limit exceeded:', rateLimitInfo);
+      lastRateLimit = rateLimitInfo;
+      // Keep what earlier pages returned rather than failing the whole search
+      if (posts.length > 0) {
+        console.warn(`[Search] Rate limited on page ${page}, returning ${posts.length} posts`);
+        return posts.slice(0, limit);
+      }
       throw new Error(`Bluesky API rate limit exceeded. ${rateLimitInfo.reset ? `Resets at: ${rateLimitInfo.reset}` : 'Please try again later.'}`);
     }
     
@@ -297,21 +405,7 @@ export async function fetchRecentGlobalPosts(limit: number = 50, useBuffer: bool
             });
             
             const feedPosts: BlueskyPost[] = authorFeed.data.feed
-              .map((feedItem: any) => {
-                const post = feedItem.post;
-                const text = post.record?.text || '';
-                const createdAt = post.record?.createdAt || new Date().toISOString();
-                const uri = post.uri || '';
-                const cid = post.cid || '';
-
-                return {
-                  text,
-                  source: 'bluesky',
-                  createdAt,
-                  uri,
-                  cid,
-                };
-              })
+              .map(feedItem => postFromFeedView(feedItem.post))
               .filter((post: BlueskyPost) => post.text.length > 0);
             
             posts.push(...feedPosts);
@@ -333,21 +427,7 @@ export async function fetchRecentGlobalPosts(limit: number = 50, useBuffer: bool
       });
       
       const timelinePosts: BlueskyPost[] = response.data.feed
-        .map((feedItem: any) => {
-          const post = feedItem.post;
-          const text = post.record?.text || '';
-          const createdAt = post.record?.createdAt || new Date().toISOString();
-          const uri = post.uri || '';
-          const cid = post.cid || '';
-
-          return {
-            text,
-            source: 'bluesky',
-            createdAt,
-            uri,
-            cid,
-          };
-        })
+        .map(feedItem => postFromFeedView(feedItem.post))
         .filter((post: BlueskyPost) => post.text.length > 0);
       
       // Combine and deduplicate by URI
@@ -7,12 +7,32 @@
 // Useful for getting recent global posts without rate limits.
 
 import WebSocket from 'ws';
-import { readCar } from '@atproto/repo';
-import { CID } from 'multiformats/cid';
-import * as dagCbor from '@ipld/dag-cbor';
-import { decode as cborDecode } from 'cbor';
 
-import type { BlueskyPost } from './blueskyClient';
+import type { BlueskyPost, PostNetwork } from './blueskyClient';
+import { postFromRecord, postSearchText } from './blueskyRecord';
+import { FirehoseCursor, type FirehoseCursorStats } from './firehoseCursor';
+import {
+  DEFAULT_SUBSCRIPTION,
+  buildJetstreamUrl,
+  buildOptionsUpdateMessage,
+  normalizeSubscription,
+  requiresHello,
+  type JetstreamSubscriptionOptions,
+} from './jetstreamSubscription';
+import { PostIndex, normalizeSearchText, type BufferedPost } from './postIndex';
+import { RegionKeywords, extractMainRegion, filterByRegion } from './regionFilter';
+import { DEFAULT_SNAPSHOT_PATH, readSnapshot, writeSnapshot } from './postSnapshot';
+import { FirehoseMetrics, type FirehoseMetricsSnapshot } from './firehoseMetrics';
+import { FirehoseConnection, getJetstreamEndpoints, type FirehoseConnectionStats } from './firehoseConnection';
+import {
+  FirehoseRecorder,
+  FirehoseReplay,
+  type FirehoseRecorderStats,
+  type FirehoseReplayOptions,
+  type FirehoseReplayStats,
+} from './firehoseCapture';
+import { getRelayEndpoints, startRelayFirehose } from './repoFirehose';
+import { MastodonStream, resolveMastodonOptions, type MastodonStreamOptions, type MastodonStreamStats } from './mastodonStream';
 
 export interface FirehoseOptions {
   onPost?: (post: BlueskyPost) => void;
@@ -24,16 +44,109 @@ export interface FirehoseOptions {
 // =====================
 // POST BUFFER
 // =====================
-interface BufferedPost extends BlueskyPost {
-  timestamp: number; // When the post was added to buffer
+// Posts live in a PostIndex (ring storage + CID map + token index), so inserts,
+// dedupe and keyword/region lookups stay cheap with tens of thousands of posts buffered.
+// While running, the buffer is snapshotted to disk and restored on boot (warm restart).
+//
+// The buffer is fed either by a live connection - Jetstream (JSON) or a relay's
+// raw com.atproto.sync.subscribeRepos stream - or by replaying a recorded capture
+// (offline mode). Optional environment variables:
+// - FIREHOSE_TRANSPORT ("jetstream" or "relay", default "jetstream")
+// - FIREHOSE_REPLAY_PATH (replay this capture instead of connecting when started)
+// - FIREHOSE_REPLAY_SPEED (replay speed multiplier, default 1; 0 = as fast as possible)
+// - FIREHOSE_RECORD_PATH (record the live stream to this capture while running)
+//
+// A Mastodon stream (see mastodonStream.ts) can feed the same buffer alongside the
+// firehose; its posts have source "mastodon", and lookups can be limited to one network.
+
+const SNAPSHOT_INTERVAL_MS = 30 * 1000;
+
+export interface PostBufferOptions {
+  maxSize?: number; // Maximum number of posts to keep
+  maxAge?: number; // Milliseconds before a post expires
+  snapshotPath?: string | null; // NDJSON snapshot file (null disables snapshots)
+}
+
+export interface PostBufferSnapshotStats {
+  restoredPosts: number; // Posts loaded from the snapshot on boot
+  streamedPosts: number; // Posts added since boot
+  lastSnapshotAt: number | null;
+}
+
+// Why posts were removed before expiring
+export type EvictionReason = 'delete' | 'update' | 'account';
+
+export interface PostEviction {
+  reason: EvictionReason;
+  uris: string[]; // URIs of the removed posts
+  did?: string; // Author, for account evictions
+}
+
+export type PostBufferSource = 'live' | 'replay';
+
+export type FirehoseTransport = 'jetstream' | 'relay';
+
+export interface PostBufferStartOptions {
+  subscription?: JetstreamSubscriptionOptions; // Jetstream filters (relay: only wantedDids, applied client-side)
+  transport?: FirehoseTransport; // Defaults to FIREHOSE_TRANSPORT, then "jetstream"
+  recordPath?: string; // Record the raw stream to this capture (Jetstream only; defaults to FIREHOSE_RECORD_PATH)
+}
+
+export interface PostBufferSourceStats {
+  source: PostBufferSource | null; // null while stopped
+  transport: FirehoseTransport | null; // Live transport, null while stopped or replaying
+  recording: FirehoseRecorderStats | null;
+  replay: FirehoseReplayStats | null;
+}
+
+export interface PostBufferStats extends FirehoseCursorStats, PostBufferSnapshotStats {
+  size: number;
+  maxSize: number;
+  oldestPost: number | null;
+  evictions: number; // Posts removed because they were deleted, edited or their account went away
+  evictionsByReason: Record<EvictionReason, number>;
+}
+
+/**
+ * Drop the internal buffer timestamp before handing posts to callers
+ */
+function toBlueskyPost(post: BufferedPost): BlueskyPost {
+  const copy: BlueskyPost & { timestamp?: number } = { ...post };
+  delete copy.timestamp;
+  return copy;
 }
 
 class PostBuffer {
-  private posts: BufferedPost[] = [];
-  private maxSize: number = 1000; // Maximum number of posts to keep
-  private maxAge: number = 60 * 60 * 1000; // 1 hour in milliseconds
-  private ws: WebSocket | null = null;
+  private index: PostIndex;
+  private maxAge: number;
+  private connection: FirehoseConnection | null = null;
+  private replay: FirehoseReplay | null = null;
+  private mastodon: MastodonStream | null = null;
+  private recorder: FirehoseRecorder | null = null;
   private isRunning: boolean = false;
+  private cursor: FirehoseCursor = new FirehoseCursor();
+  private relayCursor: FirehoseCursor = new FirehoseCursor(undefined, 'seq');
+  private transport: FirehoseTransport = 'jetstream';
+  private subscription: JetstreamSubscriptionOptions = { ...DEFAULT_SUBSCRIPTION };
+  private snapshotPath: string | null;
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private snapshotInFlight: boolean = false;
+  private lastSnapshotAt: number | null = null;
+  private restoredPosts: number = 0;
+  private streamedPosts: number = 0;
+  private metrics: FirehoseMetrics = new FirehoseMetrics();
+  private evictions: Record<EvictionReason, number> = { delete: 0, update: 0, account: 0 };
+  private evictionListeners: Array<(eviction: PostEviction) => void> = [];
+
+  constructor(options: PostBufferOptions = {}) {
+    this.index = new PostIndex(options.maxSize ?? 20000);
+    this.maxAge = options.maxAge ?? 60 * 60 * 1000; // 1 hour in milliseconds
+    this.snapshotPath = options.snapshotPath !== undefined
+      ? options.snapshotPath
+      : process.env.POST_BUFFER_SNAPSHOT_PATH || DEFAULT_SNAPSHOT_PATH;
+
+    this.restore();
+  }
 
   /**
    * Static method to get recent posts from the global buffer instance
@@ -46,116 +159,283 @@ class PostBuffer {
 
   /**
    * Add a post to the buffer
+   * Duplicates (same CID) are ignored - they're common when replaying from a cursor
    */
   addPost(post: BlueskyPost): void {
-    const bufferedPost: BufferedPost = {
+    // Clean up old posts first so the ring has room for fresh ones
+    this.cleanup();
+
+    const added = this.index.insert({
       ...post,
       timestamp: Date.now(),
-    };
-
-    // Remove duplicates (by CID)
-    this.posts = this.posts.filter(p => p.cid !== post.cid);
-    
-    // Add new post
-    this.posts.push(bufferedPost);
+    });
+    if (!added) {
+      return;
+    }
+    this.streamedPosts++;
 
     // Log buffer growth at key milestones
-    if (this.posts.length === 1) {
+    const size = this.index.size;
+    if (size === 1) {
       console.log(`[PostBuffer] ✅ First post added to buffer!`);
-    } else if (this.posts.length === 10) {
+    } else if (size === 10) {
       console.log(`[PostBuffer] ✅ Buffer now has 10 posts`);
-    } else if (this.posts.length === 50) {
+    } else if (size === 50) {
       console.log(`[PostBuffer] ✅ Buffer now has 50 posts`);
-    } else if (this.posts.length === 100) {
-      console.log(`[PostBuffer] ✅ Buffer now has 100 posts`);
-    } else if (this.posts.length % 100 === 0) {
-      console.log(`[PostBuffer] ✅ Buffer now has ${this.posts.length} posts`);
+    } else if (size % 1000 === 0) {
+      console.log(`[PostBuffer] ✅ Buffer now has ${size} posts`);
+    }
+  }
+
+  /**
+   * Load the last snapshot (posts older than maxAge are dropped)
+   */
+  private restore(): void {
+    if (!this.snapshotPath) {
+      return;
+    }
+
+    try {
+      const posts = readSnapshot(this.snapshotPath, this.maxAge);
+      for (const post of posts) {
+        if (this.index.insert(post)) {
+          this.restoredPosts++;
+        }
+      }
+      if (this.restoredPosts > 0) {
+        console.log(`[PostBuffer] ♻️  Restored ${this.restoredPosts} posts from ${this.snapshotPath}`);
+      }
+    } catch (err) {
+      console.warn('[PostBuffer] Could not restore snapshot, starting empty:', err instanceof Error ? err.message : String(err));
     }
+  }
 
-    // Remove oldest posts if over limit
-    if (this.posts.length > this.maxSize) {
-      this.posts = this.posts.slice(-this.maxSize);
+  /**
+   * Write the current buffer to the snapshot file
+   */
+  async snapshot(): Promise<void> {
+    if (!this.snapshotPath || this.snapshotInFlight) {
+      return;
     }
 
-    // Clean up old posts periodically
-    this.cleanup();
+    this.snapshotInFlight = true;
+    try {
+      this.cleanup();
+      await writeSnapshot(this.snapshotPath, this.index.all());
+      this.lastSnapshotAt = Date.now();
+    } catch (err) {
+      console.warn('[PostBuffer] Failed to write snapshot:', err instanceof Error ? err.message : String(err));
+    } finally {
+      this.snapshotInFlight = false;
+    }
+  }
+
+  /**
+   * Remove a deleted post
+   * @returns true if the post was buffered
+   */
+  removePost(uri: string): boolean {
+    const removed = this.index.removeByUri(uri);
+    if (!removed) {
+      return false;
+    }
+    this.recordEviction({ reason: 'delete', uris: [removed.uri] });
+    return true;
+  }
+
+  /**
+   * Replace an edited post (only if the previous version is buffered) - the edit moves to the newest slot
+   * @returns true if the post was replaced
+   */
+  updatePost(post: BlueskyPost): boolean {
+    const previous = this.index.removeByUri(post.uri);
+    if (!previous) {
+      return false;
+    }
+
+    // The edit takes the newest ring slot, so it counts as a new arrival: eviction walks the
+    // ring in order and would otherwise keep an old timestamp past maxAge
+    this.index.insert({ ...post, timestamp: Date.now() });
+    this.recordEviction({ reason: 'update', uris: [previous.uri] });
+    return true;
+  }
+
+  /**
+   * Remove every post by an account that was taken down, suspended, deactivated or deleted
+   * @returns Number of posts removed
+   */
+  removeAuthor(did: string): number {
+    const removed = this.index.removeByAuthor(did);
+    if (removed.length > 0) {
+      this.recordEviction({ reason: 'account', uris: removed.map(p => p.uri), did });
+    }
+    return removed.length;
+  }
+
+  /**
+   * Subscribe to evictions (deletes, edits, account removals) so downstream caches can drop stale posts
+   * @returns Unsubscribe function
+   */
+  onEvict(listener: (eviction: PostEviction) => void): () => void {
+    this.evictionListeners.push(listener);
+    return () => {
+      this.evictionListeners = this.evictionListeners.filter(l => l !== listener);
+    };
+  }
+
+  private recordEviction(eviction: PostEviction): void {
+    this.evictions[eviction.reason] += eviction.uris.length;
+    for (const listener of this.evictionListeners) {
+      try {
+        listener(eviction);
+      } catch (err) {
+        console.warn('[PostBuffer] Eviction listener failed:', err instanceof Error ? err.message : String(err));
+      }
+    }
   }
 
   /**
    * Remove expired posts from buffer
    */
   private cleanup(): void {
-    const now = Date.now();
-    this.posts = this.posts.filter(post => now - post.timestamp < this.maxAge);
+    this.index.evictOlderThan(Date.now() - this.maxAge);
   }
 
   /**
-   * Get posts from buffer, optionally filtered by query
+   * Search buffered posts by keyword, phrase or hashtag (newest first)
+   * Uses the token index - words must match whole, e.g. "york" matches "New York" but not "Yorkshire"
+   * @param network - Only posts from this network (default: all)
    */
-  getPosts(query?: string, limit: number = 50): BlueskyPost[] {
+  searchPosts(query: string, limit: number = 50, network?: PostNetwork): BlueskyPost[] {
     this.cleanup();
-    
-    let filtered = [...this.posts];
 
-    // Filter by query if provided
+    // Same normalization as the index, so "sao paulo" matches "São Paulo"
+    const phrase = normalizeSearchText(query.trim());
+    return this.index
+      .search(query, limit, post =>
+        (!network || post.source === network) && normalizeSearchText(postSearchText(post)).includes(phrase)
+      )
+      .map(toBlueskyPost);
+  }
+
+  /**
+   * Get posts from buffer, optionally filtered by query
+   * @param network - Only posts from this network (default: all)
+   */
+  getPosts(query?: string, limit: number = 50, network?: PostNetwork): BlueskyPost[] {
     if (query) {
-      const queryLower = query.toLowerCase();
-      filtered = filtered.filter(post => 
-        post.text.toLowerCase().includes(queryLower)
-      );
+      return this.searchPosts(query, limit, network);
     }
+    return this.getAllPosts(limit, network);
+  }
 
-    // Sort by timestamp (newest first)
-    filtered.sort((a, b) => b.timestamp - a.timestamp);
+  /**
+   * Get buffered posts that mention a region
+   * Looks up the region's keywords in the token index, then applies the usual
+   * filterByRegion matching to just those candidates
+   */
+  getPostsForRegion(region: string, limit: number = 50, network?: PostNetwork): BlueskyPost[] {
+    this.cleanup();
 
-    // Return limited results
-    return filtered.slice(0, limit).map(({ timestamp, ...post }) => post);
+    const mainRegion = extractMainRegion(region);
+    const keywords = RegionKeywords[mainRegion]?.length ? RegionKeywords[mainRegion] : [mainRegion];
+    const candidates = this.index.searchAny(keywords, this.index.size)
+      .filter(post => !network || post.source === network)
+      .map(toBlueskyPost);
+
+    return filterByRegion(candidates, region).slice(0, limit);
   }
 
   /**
    * Get all recent posts (no filter)
+   * @param network - Only posts from this network (default: all)
    */
-  getAllPosts(limit: number = 50): BlueskyPost[] {
+  getAllPosts(limit: number = 50, network?: PostNetwork): BlueskyPost[] {
     this.cleanup();
-    
-    return this.posts
-      .sort((a, b) => b.timestamp - a.timestamp)
-      .slice(0, limit)
-      .map(({ timestamp, ...post }) => post);
+
+    return this.index
+      .newest(limit, network ? post => post.source === network : undefined)
+      .map(toBlueskyPost);
   }
 
   /**
    * Get buffer stats
    */
-  getStats(): { size: number; maxSize: number; oldestPost: number | null } {
+  getStats(): PostBufferStats {
     this.cleanup();
-    const oldest = this.posts.length > 0 
-      ? Math.min(...this.posts.map(p => p.timestamp))
-      : null;
-    
+
     return {
-      size: this.posts.length,
-      maxSize: this.maxSize,
-      oldestPost: oldest,
+      size: this.index.size,
+      maxSize: this.index.maxSize,
+      oldestPost: this.index.oldestTimestamp(),
+      ...(this.transport === 'relay' ? this.relayCursor : this.cursor).getStats(),
+      restoredPosts: this.restoredPosts,
+      streamedPosts: this.streamedPosts,
+      lastSnapshotAt: this.lastSnapshotAt,
+      evictions: this.evictions.delete + this.evictions.update + this.evictions.account,
+      evictionsByReason: { ...this.evictions },
     };
   }
 
   /**
    * Start the firehose connection to populate the buffer
+   * Replays FIREHOSE_REPLAY_PATH instead when it is set
+   * @param options - Filters (defaults to posts only), transport and optional capture file
    */
-  start(): void {
+  start(options: PostBufferStartOptions = {}): void {
+    const { subscription, recordPath } = options;
     if (this.isRunning) {
       console.log('[PostBuffer] Already running');
       return;
     }
 
+    if (process.env.FIREHOSE_REPLAY_PATH) {
+      this.startReplay(process.env.FIREHOSE_REPLAY_PATH, {
+        speed: process.env.FIREHOSE_REPLAY_SPEED ? Number(process.env.FIREHOSE_REPLAY_SPEED) : undefined,
+      });
+      return;
+    }
+
+    if (subscription) {
+      this.subscription = normalizeSubscription({ ...DEFAULT_SUBSCRIPTION, ...subscription });
+    }
+
+    this.transport = options.transport || (process.env.FIREHOSE_TRANSPORT === 'relay' ? 'relay' : 'jetstream');
     this.isRunning = true;
-    console.log('[PostBuffer] Starting firehose connection...');
+    console.log(`[PostBuffer] Starting firehose connection (${this.transport})...`);
+    this.startSnapshotTimer();
+
+    const capturePath = recordPath || process.env.FIREHOSE_RECORD_PATH;
+    if (capturePath && this.transport === 'relay') {
+      // Captures are replayed through the Jetstream handler - binary relay frames can't be
+      console.warn('[PostBuffer] Recording is only supported on the Jetstream transport, not recording');
+    } else if (capturePath) {
+      try {
+        this.recorder = new FirehoseRecorder(capturePath);
+      } catch (error) {
+        console.warn('[PostBuffer] Could not open capture file, streaming without recording:', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const callbacks = {
+      onDelete: (uri: string) => this.removePost(uri),
+      onUpdate: (post: BlueskyPost) => this.updatePost(post),
+      onAccountInactive: (did: string) => this.removeAuthor(did),
+      getSubscription: () => this.subscription,
+      metrics: this.metrics,
+    };
 
     try {
-      this.ws = startFirehose((post) => {
-        this.addPost(post);
-      });
+      this.connection = this.transport === 'relay'
+        ? startRelayFirehose((post) => this.addPost(post), {
+            ...callbacks,
+            cursor: this.relayCursor,
+          })
+        : startFirehose((post) => this.addPost(post), {
+            ...callbacks,
+            cursor: this.cursor,
+            onRawMessage: (data) => this.recorder?.record(data),
+          });
     } catch (error) {
       console.warn('[PostBuffer] Failed to start firehose, will use API fallback:', error);
       this.isRunning = false;
@@ -163,115 +443,209 @@ class PostBuffer {
     }
   }
 
+  /**
+   * Fill the buffer from a recorded capture instead of the live firehose (works offline)
+   * Messages go through the same handler as the live stream; the live cursor is left untouched
+   * @param filePath - NDJSON capture written while recording
+   * @param options - Replay speed and looping
+   */
+  startReplay(filePath: string, options: FirehoseReplayOptions = {}): void {
+    if (this.isRunning) {
+      console.log('[PostBuffer] Already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`[PostBuffer] Starting replay of ${filePath}...`);
+    this.startSnapshotTimer();
+
+    const handleMessage = createJetstreamMessageHandler((post) => {
+      this.addPost(post);
+    }, {
+      onDelete: (uri) => this.removePost(uri),
+      onUpdate: (post) => this.updatePost(post),
+      onAccountInactive: (did) => this.removeAuthor(did),
+      metrics: this.metrics,
+    });
+
+    const replay = new FirehoseReplay(filePath, handleMessage, options);
+    this.replay = replay;
+    this.metrics.recordConnected();
+    replay.start()
+      .catch((error) => {
+        console.warn('[PostBuffer] Replay failed:', error instanceof Error ? error.message : String(error));
+        if (this.replay === replay) {
+          this.stop();
+        }
+      })
+      .finally(() => {
+        // Posts stay buffered after the capture ends - the buffer keeps serving them until stop()
+        if (this.replay === replay) {
+          this.metrics.recordDisconnected();
+        }
+      });
+  }
+
+  private startSnapshotTimer(): void {
+    if (this.snapshotPath && !this.snapshotTimer) {
+      this.snapshotTimer = setInterval(() => {
+        void this.snapshot();
+      }, SNAPSHOT_INTERVAL_MS);
+      // Don't keep the process alive just to write snapshots
+      this.snapshotTimer.unref();
+    }
+  }
+
+  /**
+   * Change the Jetstream filters without reconnecting
+   * Sends an options_update on the open socket; reconnects pick up the new options too
+   * @param subscription - Fields to change (omitted fields keep their current value)
+   */
+  updateSubscription(subscription: JetstreamSubscriptionOptions): JetstreamSubscriptionOptions {
+    this.subscription = normalizeSubscription({ ...this.subscription, ...subscription });
+
+    // Relays don't take options - the relay handler reads wantedDids on every commit instead
+    if (this.transport === 'jetstream' && this.connection?.send(buildOptionsUpdateMessage(this.subscription))) {
+      console.log('[PostBuffer] Sent subscription update:', this.subscription);
+    }
+
+    return this.subscription;
+  }
+
+  /**
+   * Current Jetstream filters
+   */
+  getSubscription(): JetstreamSubscriptionOptions {
+    return this.subscription;
+  }
+
   /**
    * Stop the firehose connection
    */
   stop(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
     this.isRunning = false;
+    if (this.connection) {
+      this.connection.stop();
+      this.connection = null;
+    }
+    if (this.replay) {
+      this.replay.stop();
+      this.replay = null;
+      this.metrics.recordDisconnected();
+    }
+    if (this.recorder) {
+      void this.recorder.close();
+      this.recorder = null;
+    }
+    this.cursor.persist();
+    this.relayCursor.persist();
+    // A running Mastodon stream still needs snapshots
+    if (this.snapshotTimer && !this.mastodon) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    void this.snapshot();
     console.log('[PostBuffer] Stopped');
   }
 
+  /**
+   * Stop and start again (keeps buffered posts and resumes from the cursor)
+   * @param options - Optional new filters, transport and capture file
+   */
+  restart(options: PostBufferStartOptions = {}): void {
+    this.stop();
+    this.start(options);
+  }
+
+  /**
+   * Live connection metrics (rates, parse errors, reconnects)
+   */
+  getStreamStats(): FirehoseMetricsSnapshot {
+    return this.metrics.getSnapshot();
+  }
+
+  /**
+   * Current endpoint, failover list and reconnect backoff state
+   */
+  getConnectionStats(): FirehoseConnectionStats {
+    return this.connection
+      ? this.connection.getStats()
+      : {
+          endpoint: null,
+          endpoints: this.transport === 'relay' ? getRelayEndpoints() : getJetstreamEndpoints(),
+          consecutiveFailures: 0,
+          nextReconnectAt: null,
+        };
+  }
+
+  /**
+   * What is feeding the buffer (live stream or replay) and any recording in progress
+   */
+  getSourceStats(): PostBufferSourceStats {
+    return {
+      source: !this.isRunning ? null : this.replay ? 'replay' : 'live',
+      transport: this.isRunning && !this.replay ? this.transport : null,
+      recording: this.recorder ? this.recorder.getStats() : null,
+      replay: this.replay ? this.replay.getStats() : null,
+    };
+  }
+
   /**
    * Check if buffer is running
    */
   isActive(): boolean {
     return this.isRunning;
   }
-}
 
-// Global post buffer instance
-const postBuffer = new PostBuffer();
+  /**
+   * Stream Mastodon statuses into the buffer alongside (or instead of) the firehose
+   * @param options - Instance, stream type and token (fall back to MASTODON_* env vars)
+   * @throws Error if no instance is configured or the options are invalid
+   */
+  startMastodon(options: MastodonStreamOptions = {}): void {
+    const resolved = resolveMastodonOptions(options);
+    if (!resolved) {
+      throw new Error('No Mastodon instance configured (set MASTODON_BASE_URL or pass baseUrl)');
+    }
 
-// Note: Buffer is not auto-started. Use /api/start-firehose endpoint to start it.
+    this.stopMastodon();
+    this.mastodon = new MastodonStream(resolved, {
+      onPost: (post) => this.addPost(post),
+      onUpdate: (post) => this.updatePost(post),
+      onDelete: (uri) => this.removePost(uri),
+    });
+    this.startSnapshotTimer();
+    this.mastodon.start();
+    console.log(`[PostBuffer] Started Mastodon ${resolved.stream} stream from ${resolved.baseUrl}`);
+  }
 
-export { postBuffer, PostBuffer };
+  /**
+   * Stop the Mastodon stream (buffered statuses stay until they expire)
+   */
+  stopMastodon(): void {
+    if (this.mastodon) {
+      this.mastodon.stop();
+      this.mastodon = null;
+      console.log('[PostBuffer] Stopped Mastodon stream');
+    }
+  }
 
-/**
- * Parse a subscription message from the firehose
- * Bluesky firehose uses a frame protocol with CBOR-encoded messages
- * Frame format appears to have a header, then CBOR data
- */
-/**
- * Parse a subscription message from the Bluesky Firehose
- * Messages are CBOR-encoded directly (no frame protocol)
- * Based on: https://davepeck.org/notes/bluesky/decoding-the-bluesky-firehose-with-zero-python-dependencies/
- */
-async function parseSubscriptionMessage(data: WebSocket.Data): Promise<any> {
-  const buffer = Buffer.from(data as ArrayBuffer);
-  
-  if (buffer.length === 0) {
-    return null;
+  isMastodonActive(): boolean {
+    return !!this.mastodon;
   }
 
-  try {
-    // The message is CBOR-encoded directly (0xa2 = CBOR map with 2 pairs)
-    // No frame protocol - decode the entire buffer as CBOR
-    // Try dagCbor first (for IPLD DAG-CBOR), fall back to standard CBOR
-    let decoded: any;
-    try {
-      decoded = dagCbor.decode(buffer);
-    } catch (dagCborError) {
-      // If dagCbor fails, try standard CBOR decoder
-      try {
-        decoded = cborDecode(buffer);
-      } catch (cborError) {
-        // If both fail, try decoding as Uint8Array
-        decoded = cborDecode(new Uint8Array(buffer));
-      }
-    }
-    
-    if (!decoded || typeof decoded !== 'object') {
-      console.warn('[Firehose] Decoded message is not an object');
-      return null;
-    }
-    
-    // Auto-detect message type based on structure
-    // Commit messages have: seq, ops, blocks, repo (or did)
-    if (decoded.seq !== undefined && decoded.ops !== undefined && decoded.blocks !== undefined) {
-      decoded.$type = 'com.atproto.sync.subscribeRepos#commit';
-      // blocks is a Uint8Array (CAR file) - keep it for extraction
-    } 
-    // Info messages have: name, message
-    else if (decoded.name !== undefined && decoded.message !== undefined) {
-      decoded.$type = 'com.atproto.sync.subscribeRepos#info';
-    } 
-    // Identity messages have: did, handle
-    else if (decoded.did !== undefined && decoded.handle !== undefined) {
-      decoded.$type = 'com.atproto.sync.subscribeRepos#identity';
-    } 
-    // Account messages have: did, active
-    else if (decoded.did !== undefined && decoded.active !== undefined) {
-      decoded.$type = 'com.atproto.sync.subscribeRepos#account';
-    }
-    // Some messages might have a 'tg' (type) field indicating the message type
-    else if (decoded.tg !== undefined) {
-      // Map the type tag to our internal type
-      if (decoded.tg === '#commit' || decoded.tg === 'commit') {
-        decoded.$type = 'com.atproto.sync.subscribeRepos#commit';
-      } else if (decoded.tg === '#info' || decoded.tg === 'info') {
-        decoded.$type = 'com.atproto.sync.subscribeRepos#info';
-      }
-    }
-    
-    return decoded;
-    
-  } catch (parseError) {
-    // Log detailed error information for debugging
-    console.warn('[Firehose] Failed to parse message:', {
-      bufferLength: buffer.length,
-      firstByte: buffer[0],
-      firstByteHex: `0x${buffer[0].toString(16)}`,
-      firstBytes: buffer.slice(0, Math.min(50, buffer.length)).toString('hex'),
-      error: parseError instanceof Error ? parseError.message : String(parseError)
-    });
-    return null;
+  getMastodonStats(): MastodonStreamStats | null {
+    return this.mastodon ? this.mastodon.getStats() : null;
   }
 }
 
+// Global post buffer instance
+const postBuffer = new PostBuffer();
+
+// Note: Buffer is not auto-started. POST { action: "start" } (or "replay") to /api/firehose to start it.
+
+export { postBuffer, PostBuffer };
+
 /**
  * Extract posts from Jetstream commit message (JSON format)
  * Jetstream format can be:
@@ -319,13 +693,14 @@ async function extractPostsFromJetstreamCommit(jetstreamMsg: any): Promise<Blues
           
           if (record && record.text) {
             const repo = jetstreamMsg.repo || jetstreamMsg.did || commit.repo || 'unknown';
-            posts.push({
-              text: record.text,
-              source: 'bluesky',
-              createdAt: record.createdAt || new Date().toISOString(),
+            const post = postFromRecord(record, {
               uri: `${repo}/${op.path}`,
               cid: cidStr,
+              authorDid: repo !== 'unknown' ? repo : undefined,
             });
+            if (post) {
+              posts.push(post);
+            }
           }
         } catch (err) {
           // Skip posts that can't be parsed
@@ -353,76 +728,8 @@ async function extractPostsFromJetstreamCommit(jetstreamMsg: any): Promise<Blues
   return posts;
 }
 
-/**
- * Extract post records from a commit message
- * Commit messages contain operations (ops) and blocks (CAR file with records)
- * Based on: https://kaskada.io/examples/bluesky.html
- */
-async function extractPostsFromCommit(commit: any, blocks: Uint8Array | Buffer): Promise<BlueskyPost[]> {
-  const posts: BlueskyPost[] = [];
-  
-  if (!commit.ops) {
-    return posts; // No operations, no posts
-  }
-
-  if (!blocks) {
-    // Some commits might not have blocks if they're deletes
-    return posts;
-  }
-
-  try {
-    // Convert blocks to Uint8Array if it's a Buffer
-    const blocksArray = blocks instanceof Buffer ? new Uint8Array(blocks) : blocks;
-    
-    // Read the CAR (Content-Addressed Archive) file to get blocks
-    const car = await readCar(blocksArray);
-    const blockMap = new Map<string, Uint8Array>();
-    
-    // Store all blocks in a map (keyed by CID string)
-    for await (const block of car.blocks()) {
-      blockMap.set(block.cid.toString(), block.bytes);
-    }
-
-    // Process each operation to find post creates
-    for (const op of commit.ops) {
-      // Only process "create" operations for posts
-      if (op.action === 'create' && op.path?.startsWith('app.bsky.feed.post/') && op.cid) {
-        try {
-          const cidStr = typeof op.cid === 'string' ? op.cid : op.cid.toString();
-          const blockBytes = blockMap.get(cidStr);
-          
-          if (blockBytes) {
-            // Decode the CBOR-encoded record (CAR blocks use IPLD DAG-CBOR)
-            const record = dagCbor.decode(blockBytes);
-            
-            if (record && record.text) {
-              posts.push({
-                text: record.text,
-                source: 'bluesky',
-                createdAt: record.createdAt || new Date().toISOString(),
-                uri: `${commit.repo || commit.did}/${op.path}`,
-                cid: cidStr,
-              });
-            }
-          }
-        } catch (err) {
-          // Skip posts that can't be parsed (common for non-post records)
-          // Only log if it's unexpected
-          if (err instanceof Error && !err.message.includes('decode')) {
-            console.warn('[Firehose] Error parsing post record:', err.message);
-          }
-        }
-      }
-    }
-  } catch (err) {
-    console.error('[Firehose] Error reading CAR file:', err);
-    if (err instanceof Error) {
-      console.error('[Firehose] CAR error details:', err.message);
-    }
-  }
-
-  return posts;
-}
+// Next endpoint for collectPostsFromFirehose (round-robin)
+let collectEndpointIndex = 0;
 
 /**
  * Start listening to the Bluesky Firehose and collect posts
@@ -433,6 +740,8 @@ export function collectPostsFromFirehose(
   options: FirehoseOptions = {}
 ): Promise<BlueskyPost[]> {
   const { filter, maxPosts = 50, timeout = 10000 } = options;
+  const endpoints = getJetstreamEndpoints();
+  const endpoint = endpoints[collectEndpointIndex++ % endpoints.length];
   const posts: BlueskyPost[] = [];
   let ws: WebSocket | null = null;
   let timeoutId: NodeJS.Timeout | null = null;
@@ -458,10 +767,11 @@ export function collectPostsFromFirehose(
     }, timeout);
 
     // Use Jetstream instead of raw firehose - it outputs JSON, much easier to parse
-    ws = new WebSocket('wss://jetstream1.us-east.bsky.network');
+    // One-shot collections rotate through the endpoints so one bad instance doesn't fail every call
+    ws = new WebSocket(buildJetstreamUrl(endpoint, DEFAULT_SUBSCRIPTION));
 
     ws.on('open', () => {
-      console.log('[Firehose] Connected to Bluesky Firehose');
+      console.log(`[Firehose] Connected to ${endpoint}`);
     });
 
     ws.on('message', async (data: WebSocket.Data) => {
@@ -514,31 +824,55 @@ export function collectPostsFromFirehose(
   });
 }
 
-/**
- * Start a persistent Firehose connection (for long-running processes)
- * Uses Jetstream - Bluesky's simplified firehose that outputs JSON instead of CBOR
- * Official endpoint: https://docs.bsky.app/docs/advanced-guides/firehose
- * @param onPost - Callback for each new post
- */
+export interface JetstreamHandlerOptions {
+  // Tracks the last processed time_us so reconnects resume with ?cursor=
+  cursor?: FirehoseCursor;
+  // Message/post rates, parse errors and reconnect counts
+  metrics?: FirehoseMetrics;
+  // A post was deleted
+  onDelete?: (uri: string) => void;
+  // A post was edited (the new version of the record)
+  onUpdate?: (post: BlueskyPost) => void;
+  // An account was taken down, suspended, deactivated or deleted
+  onAccountInactive?: (did: string, status?: string) => void;
+}
+
+export interface StartFirehoseOptions extends JetstreamHandlerOptions {
+  // Server-side filters, read on every (re)connect so live updates survive reconnects
+  getSubscription?: () => JetstreamSubscriptionOptions;
+  // Jetstream endpoints to fail over between (defaults to JETSTREAM_ENDPOINTS or the public instances)
+  endpoints?: string[];
+  // Called with every raw message before it's handled (e.g. to record a capture)
+  onRawMessage?: (data: WebSocket.Data) => void;
+}
+
 // Track if we've logged commit structure (module-level, not instance)
 let hasLoggedCommitStructure = false;
 
-export function startFirehose(onPost: (post: BlueskyPost) => void): WebSocket {
-  // Use Jetstream - outputs JSON, much simpler than parsing CBOR
-  // Official endpoint from: https://docs.bsky.app/docs/advanced-guides/firehose
-  // Try without wantedCollections filter - it might be preventing commits from coming through
-  // We'll filter for posts client-side instead
-  const ws = new WebSocket('wss://jetstream2.us-east.bsky.network/subscribe');
-
-  ws.on('open', () => {
-    console.log('[Firehose] ✅ Connected to Bluesky Jetstream (JSON format)');
-    console.log('[Firehose] Waiting for posts to stream in...');
-  });
+/**
+ * Build the handler for raw Jetstream messages
+ * Shared by the live connection (startFirehose) and capture replay (FirehoseReplay),
+ * so replayed messages go through exactly the same parsing as live ones
+ * @param onPost - Callback for each new post
+ * @param options - Cursor, metrics and delete/edit/account callbacks
+ * @returns Handler for one raw message (a WebSocket frame or a capture line)
+ */
+export function createJetstreamMessageHandler(
+  onPost: (post: BlueskyPost) => void,
+  options: JetstreamHandlerOptions = {}
+): (data: WebSocket.Data | string) => Promise<void> {
+  const { cursor, metrics, onDelete, onUpdate, onAccountInactive } = options;
 
-  ws.on('message', async (data: WebSocket.Data) => {
+  return async (data: WebSocket.Data | string) => {
+    metrics?.recordMessage();
     try {
       // Jetstream sends JSON messages directly (no CBOR parsing needed)
       const msg = JSON.parse(data.toString());
+
+      // Every Jetstream event carries time_us - remember it so we can resume here
+      if (cursor && typeof msg.time_us === 'number') {
+        cursor.update(msg.time_us);
+      }
       
       // Jetstream format can be either:
       // 1. { type: 'commit', commit: {...}, ... }
@@ -587,35 +921,52 @@ export function startFirehose(onPost: (post: BlueskyPost) => void): WebSocket {
           }
           
           for (const post of extractedPosts) {
+            metrics?.recordPost();
             onPost(post);
           }
+
+          // Deleted posts have no record - evict them by URI
+          for (const op of postOps) {
+            if (op.action === 'delete') {
+              onDelete?.(`${msg.repo || msg.did}/${op.path}`);
+            }
+          }
         } else if (commit.operation && commit.collection === 'app.bsky.feed.post' && commit.record) {
           // New format: single operation with record directly in commit
-          if (commit.operation === 'create' && commit.record.text) {
-            const post: BlueskyPost = {
-              text: commit.record.text,
-              source: 'bluesky',
-              createdAt: commit.record.createdAt || new Date().toISOString(),
-              uri: `at://${msg.did}/${commit.collection}/${commit.rkey}`,
-              cid: commit.cid || '',
-            };
-            
+          // "update" means the post was edited - same URI, new record and CID
+          const post = commit.operation === 'create' || commit.operation === 'update'
+            ? postFromRecord(commit.record, {
+                uri: `at://${msg.did}/${commit.collection}/${commit.rkey}`,
+                cid: commit.cid || '',
+                authorDid: msg.did,
+              })
+            : null;
+
+          if (post && commit.operation === 'update') {
+            onUpdate?.(post);
+          } else if (post) {
             // Only log every 10th post to reduce spam (posts are coming in fast!)
             const shouldLog = Math.random() < 0.1; // 10% chance
             if (shouldLog) {
               console.log(`[Firehose] ✅ Extracted 1 post from commit (repo: ${msg.did || 'unknown'})`);
             }
+            metrics?.recordPost();
             onPost(post);
-          } else if (commit.operation === 'create' && !commit.record.text) {
+          } else if (commit.operation === 'create') {
             // Post without text (might be a reply or other type)
             // Skip silently
           }
-        } else if (commit.collection === 'app.bsky.feed.post') {
-          // Post collection but might be delete or other operation
-          if (commit.operation !== 'create') {
-            // Skip deletes and other operations silently
-            return;
-          }
+        } else if (commit.collection === 'app.bsky.feed.post' && commit.operation === 'delete') {
+          // Deletes carry no record - evict the post so it stops showing on the map
+          onDelete?.(`at://${msg.did}/${commit.collection}/${commit.rkey}`);
+        }
+      } else if (messageType === 'account' && msg.account) {
+        // { kind: 'account', did, account: { active, status?, did, seq, time } }
+        // Inactive accounts (takendown, suspended, deactivated, deleted) should disappear from the map
+        if (msg.account.active === false) {
+          const did = msg.account.did || msg.did;
+          console.log(`[Firehose] 🚫 Account ${did} is ${msg.account.status || 'inactive'} - evicting its posts`);
+          onAccountInactive?.(did, msg.account.status);
         }
       } else if (messageType === 'info' || msg.message) {
         console.log(`[Firehose] ℹ️  Info message: ${msg.message || JSON.stringify(msg)}`);
@@ -631,6 +982,7 @@ export function startFirehose(onPost: (post: BlueskyPost) => void): WebSocket {
         console.warn('[Firehose] ⚠️  Received message with unknown format:', Object.keys(msg).slice(0, 5).join(', '));
       }
     } catch (err) {
+      metrics?.recordParseError();
       // Check if it's a JSON parse error (might be binary data)
       if (err instanceof SyntaxError) {
         console.warn('[Firehose] ⚠️  Received non-JSON message (might be binary):', data instanceof Buffer ? `${data.length} bytes` : typeof data);
@@ -641,30 +993,61 @@ export function startFirehose(onPost: (post: BlueskyPost) => void): WebSocket {
         }
       }
     }
-  });
+  };
+}
 
-  ws.on('close', (code, reason) => {
-    console.log(`[Firehose] ⚠️  Connection closed (code: ${code}, reason: ${reason?.toString() || 'none'}). Reconnecting in 5 seconds...`);
-    // Wait longer before reconnecting to avoid rapid reconnection loops
-    setTimeout(() => {
-      if (!ws || ws.readyState === WebSocket.CLOSED) {
-        console.log('[Firehose] 🔄 Attempting to reconnect...');
-        startFirehose(onPost);
-      }
-    }, 5000);
-  });
+/**
+ * Start a persistent Firehose connection (for long-running processes)
+ * Uses Jetstream - Bluesky's simplified firehose that outputs JSON instead of CBOR
+ * Official endpoint: https://docs.bsky.app/docs/advanced-guides/firehose
+ * @param onPost - Callback for each new post
+ * @param options - Optional cursor to resume from (and keep updated), subscription filters and endpoints
+ * @returns The connection - call stop() on it to disconnect (it reconnects with backoff until then)
+ */
+export function startFirehose(
+  onPost: (post: BlueskyPost) => void,
+  options: StartFirehoseOptions = {}
+): FirehoseConnection {
+  const { cursor, getSubscription, metrics, endpoints, onRawMessage } = options;
 
-  ws.on('error', (error) => {
-    console.error('[Firehose] ❌ WebSocket error:', error);
-    // If connection fails, log but don't crash - API fallback will handle requests
-    if (error instanceof Error) {
-      if (error.message.includes('Unexpected server response')) {
-        console.warn('[Firehose] ⚠️  Jetstream connection failed - check endpoint URL. API fallback will be used.');
-      } else {
-        console.error('[Firehose] Error message:', error.message);
+  // Use Jetstream - outputs JSON, much simpler than parsing CBOR
+  // Official endpoint from: https://docs.bsky.app/docs/advanced-guides/firehose
+  // wantedCollections makes Jetstream drop non-post commits server-side, so we only
+  // pay for the records we keep (the handler still ignores anything else)
+  // If we have a cursor, Jetstream replays everything since then before going live
+  let subscription = DEFAULT_SUBSCRIPTION;
+  let resumeFrom: number | null = null;
+  const handleMessage = createJetstreamMessageHandler(onPost, options);
+
+  const connection = new FirehoseConnection({
+    endpoints,
+    metrics,
+    buildUrl: (endpoint) => {
+      subscription = getSubscription ? getSubscription() : DEFAULT_SUBSCRIPTION;
+      resumeFrom = cursor ? cursor.resumeFrom() : null;
+      return buildJetstreamUrl(endpoint, subscription, resumeFrom);
+    },
+    onOpen: (ws) => {
+      if (requiresHello(subscription)) {
+        // Options didn't fit in the URL - Jetstream holds events until it gets them
+        ws.send(buildOptionsUpdateMessage(subscription));
       }
-    }
+      if (cursor && resumeFrom !== null) {
+        cursor.markGapRecovered();
+        console.log(`[Firehose] ⏪ Resuming from cursor ${resumeFrom} (replaying ${Math.round((Date.now() - resumeFrom / 1000) / 1000)}s of history)`);
+      }
+      console.log('[Firehose] Waiting for posts to stream in...');
+    },
+    onMessage: (data) => {
+      onRawMessage?.(data);
+      void handleMessage(data);
+    },
+    onClose: () => {
+      // Flush the cursor so a restart during the reconnect delay doesn't lose it
+      cursor?.persist();
+    },
   });
+  connection.start();
 
-  return ws;
+  return connection;
 }
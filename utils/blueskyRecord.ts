@@ -0,0 +1,174 @@
+// =====================
+// BLUESKY POST RECORDS
+// =====================
+// Maps a raw app.bsky.feed.post record (from Jetstream JSON, a CAR block,
+// or an AppView response) to our BlueskyPost model.
+// Lexicon: https://github.com/bluesky-social/atproto/blob/main/lexicons/app/bsky/feed/post.json
+
+import type { BlueskyPost, StrongRef } from './blueskyClient';
+
+// =====================
+// RAW RECORD SHAPES
+// =====================
+// Only the fields we read. CIDs are strings in JSON but CID objects when
+// decoded from DAG-CBOR, so they're typed as unknown and stringified.
+interface RawRef {
+  uri?: string;
+  cid?: unknown;
+}
+
+interface RawEmbed {
+  $type?: string;
+  images?: Array<{ alt?: string }>;
+  external?: { uri?: string; title?: string; description?: string };
+  record?: RawRef & { record?: RawRef }; // embed.record is a ref; recordWithMedia nests it one level deeper
+  media?: RawEmbed;
+  alt?: string; // app.bsky.embed.video
+}
+
+interface RawFacet {
+  features?: Array<{ $type?: string; tag?: string; did?: string; uri?: string }>;
+}
+
+export interface PostRecord {
+  text?: string;
+  createdAt?: string;
+  langs?: string[];
+  reply?: { parent?: RawRef; root?: RawRef };
+  embed?: RawEmbed;
+  facets?: RawFacet[];
+  tags?: string[];
+  labels?: { values?: Array<{ val?: string }> };
+}
+
+export interface PostRecordMeta {
+  uri: string;
+  cid: string;
+  authorDid?: string;
+}
+
+function toStrongRef(ref: RawRef | undefined): StrongRef | undefined {
+  if (!ref?.uri) {
+    return undefined;
+  }
+  return { uri: ref.uri, cid: ref.cid ? String(ref.cid) : '' };
+}
+
+/**
+ * Collect alt text from an images or video embed
+ */
+function collectAlts(embed: RawEmbed | undefined): string[] {
+  if (!embed) return [];
+  const alts = (embed.images || []).map(image => image.alt || '');
+  if (embed.alt) alts.push(embed.alt);
+  return alts.map(alt => alt.trim()).filter(Boolean);
+}
+
+/**
+ * Pull the DID out of an at:// URI ("at://did:plc:abc/app.bsky.feed.post/xyz" -> "did:plc:abc")
+ */
+function didFromUri(uri: string): string | undefined {
+  const match = uri.match(/(did:[a-z]+:[a-zA-Z0-9._:%-]+)/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Convert a post record into a BlueskyPost
+ * @param record - Decoded app.bsky.feed.post record
+ * @param meta - URI/CID of the record and (optionally) the author's DID
+ * @returns The post, or null if the record has no text
+ */
+export function postFromRecord(record: PostRecord, meta: PostRecordMeta): BlueskyPost | null {
+  if (!record || typeof record.text !== 'string' || !record.text) {
+    return null;
+  }
+
+  const post: BlueskyPost = {
+    text: record.text,
+    source: 'bluesky',
+    createdAt: record.createdAt || new Date().toISOString(),
+    uri: meta.uri,
+    cid: meta.cid,
+  };
+
+  const authorDid = meta.authorDid || didFromUri(meta.uri);
+  if (authorDid) post.authorDid = authorDid;
+
+  if (Array.isArray(record.langs) && record.langs.length > 0) {
+    post.langs = record.langs.filter(lang => typeof lang === 'string');
+  }
+
+  // Replies
+  const parent = toStrongRef(record.reply?.parent);
+  const root = toStrongRef(record.reply?.root);
+  if (parent && root) {
+    post.reply = { parent, root };
+  }
+
+  // Embeds: quotes, link cards, image alt text
+  const embed = record.embed;
+  if (embed) {
+    switch (embed.$type) {
+      case 'app.bsky.embed.record':
+        post.quote = toStrongRef(embed.record);
+        break;
+      case 'app.bsky.embed.recordWithMedia':
+        post.quote = toStrongRef(embed.record?.record);
+        break;
+    }
+
+    const media = embed.$type === 'app.bsky.embed.recordWithMedia' ? embed.media : embed;
+    const external = media?.external;
+    if (external?.uri) {
+      post.externalLink = {
+        uri: external.uri,
+        title: external.title || '',
+        description: external.description || '',
+      };
+    }
+
+    const alts = collectAlts(media);
+    if (alts.length > 0) post.imageAlts = alts;
+  }
+
+  // Facets: hashtags, mentions, links
+  const hashtags = new Set<string>();
+  const mentions = new Set<string>();
+  const links = new Set<string>();
+  for (const facet of record.facets || []) {
+    for (const feature of facet.features || []) {
+      if (feature.$type === 'app.bsky.richtext.facet#tag' && feature.tag) {
+        hashtags.add(feature.tag.replace(/^#/, '').toLowerCase());
+      } else if (feature.$type === 'app.bsky.richtext.facet#mention' && feature.did) {
+        mentions.add(feature.did);
+      } else if (feature.$type === 'app.bsky.richtext.facet#link' && feature.uri) {
+        links.add(feature.uri);
+      }
+    }
+  }
+  // Tags can also be attached outside the text
+  for (const tag of record.tags || []) {
+    if (typeof tag === 'string' && tag) hashtags.add(tag.replace(/^#/, '').toLowerCase());
+  }
+  if (hashtags.size > 0) post.hashtags = [...hashtags];
+  if (mentions.size > 0) post.mentions = [...mentions];
+  if (links.size > 0) post.links = [...links];
+
+  // Self-labels
+  const labels = (record.labels?.values || []).map(label => label.val).filter((val): val is string => !!val);
+  if (labels.length > 0) post.labels = labels;
+
+  return post;
+}
+
+/**
+ * All text a post carries for matching and classification:
+ * body, hashtags, image alt text and link card title/description
+ */
+export function postSearchText(post: Pick<BlueskyPost, 'text'> & Partial<Omit<BlueskyPost, 'source'>>): string {
+  const parts = [post.text || ''];
+  if (post.hashtags?.length) parts.push(post.hashtags.map(tag => `#${tag}`).join(' '));
+  if (post.imageAlts?.length) parts.push(...post.imageAlts);
+  if (post.externalLink) parts.push(post.externalLink.title, post.externalLink.description);
+  return parts.filter(Boolean).join('\n');
+}
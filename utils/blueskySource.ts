@@ -0,0 +1,99 @@
+// =====================
+// BLUESKY SOURCE
+// =====================
+// Region-matched Bluesky posts. Reads the live firehose buffer when it's running;
+// otherwise (or when the buffer has nothing for the region) searches Bluesky for
+// the region name and keeps the results that actually match the region.
+
+import { searchPosts, getLastRateLimit, type BlueskyPost } from './blueskyClient';
+import { postBuffer } from './blueskyFirehose';
+import { matchesLanguages, normalizeLanguage } from './languagePolicy';
+import { extractMainRegion, filterByRegion } from './regionFilter';
+import { withinWindow, type SourceAdapter, type SourceQuery, type SourceQuota } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+/**
+ * A post's language: the first tag its author's client declared
+ */
+function postLanguage(post: BlueskyPost): string | undefined {
+  return normalizeLanguage(post.langs?.[0]);
+}
+
+/**
+ * Whether any of a post's declared languages is wanted (untagged posts are kept)
+ */
+function matchesQueryLanguages(post: BlueskyPost, languages: string[] | undefined): boolean {
+  if (!languages || !post.langs?.length) return true;
+  return post.langs.some(lang => matchesLanguages(normalizeLanguage(lang), languages));
+}
+
+async function fetchBluesky(query: SourceQuery): Promise<BlueskyPost[]> {
+  const { region, limit, languages } = query;
+
+  if (postBuffer.isActive()) {
+    const buffered = (region ? postBuffer.getPostsForRegion(region, limit, 'bluesky') : postBuffer.getAllPosts(limit, 'bluesky'))
+      .filter(post => withinWindow(post.createdAt, query) && matchesQueryLanguages(post, languages));
+    if (buffered.length > 0) {
+      console.log(`[Ingest] Bluesky: ${buffered.length} posts from firehose buffer${region ? ` for ${region}` : ''}`);
+      return buffered;
+    }
+  }
+
+  if (!region) {
+    // Search needs a query - without a region there's nothing to fall back to
+    return [];
+  }
+
+  const results = await searchPosts(extractMainRegion(region), limit, false, {
+    since: query.since?.toISOString(),
+    until: query.until?.toISOString(),
+    sort: 'latest',
+    // Search takes a single language - several are filtered below
+    lang: languages?.length === 1 ? languages[0] : undefined,
+  });
+  const matched = filterByRegion(results, region).filter(post => matchesQueryLanguages(post, languages));
+  console.log(`[Ingest] Bluesky: ${matched.length} of ${results.length} search results matched ${region}`);
+  return matched;
+}
+
+function normalizeBlueskyPosts(posts: BlueskyPost[], query: SourceQuery): UnifiedPost[] {
+  return posts.map(post => ({
+    text: post.text,
+    createdAt: new Date(post.createdAt).toISOString(),
+    source: 'bluesky',
+    uri: post.uri,
+    cid: post.cid,
+    lat: null, // Bluesky posts carry no location - spread around the region center
+    lon: null,
+    region: query.region,
+    language: postLanguage(post),
+  }));
+}
+
+function blueskyQuota(): SourceQuota | null {
+  const rateLimit = getLastRateLimit();
+  if (!rateLimit) {
+    return null;
+  }
+  const reset = rateLimit.reset ? Number(rateLimit.reset) : NaN;
+  return {
+    remaining: rateLimit.remaining ?? null,
+    limit: rateLimit.limit ?? null,
+    resetAt: isNaN(reset) ? null : new Date(reset * 1000).toISOString(), // Header is epoch seconds
+  };
+}
+
+export const blueskySource: SourceAdapter<BlueskyPost> = {
+  id: 'bluesky',
+  label: 'Bluesky',
+  kind: 'social',
+  enabledByDefault: true,
+  defaultLimit: 100,
+  supportsTimeWindow: true,
+  // Search needs credentials; the firehose buffer doesn't
+  isConfigured: () =>
+    postBuffer.isActive() || !!(process.env.BLUESKY_SERVICE_IDENTIFIER && process.env.BLUESKY_APP_PASSWORD),
+  fetch: fetchBluesky,
+  normalize: normalizeBlueskyPosts,
+  quota: blueskyQuota,
+};
@@ -0,0 +1,69 @@
+// =====================
+// DATASET SOURCE
+// =====================
+// Rows from the bundled disaster-tweets CSV, or from an uploaded dataset when the query
+// names one (see datasetStore.ts). Rows keep their own coordinates, timestamps and
+// language when the file has them. Most rows have no timestamps, so the time window is
+// ignored.
+
+import { findDatasetPath, loadDataset, type TweetData } from './loadDataset';
+import { listStoredDatasets, streamStoredDataset } from './datasetStore';
+import { extractMainRegion, filterByRegion } from './regionFilter';
+import { normalizeLanguage } from './languagePolicy';
+import type { SourceAdapter, SourceQuery } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+// Rows scanned when filtering by region - most rows won't mention it
+const REGION_SCAN_ROWS = 5000;
+
+async function readRows(query: SourceQuery, limit: number): Promise<TweetData[]> {
+  if (!query.dataset) {
+    return loadDataset(limit);
+  }
+  const rows: TweetData[] = [];
+  await streamStoredDataset(query.dataset, { limit }, row => {
+    rows.push(row);
+  });
+  return rows;
+}
+
+async function fetchDataset(query: SourceQuery): Promise<TweetData[]> {
+  if (!query.region) {
+    return readRows(query, query.limit);
+  }
+  const rows = await readRows(query, Math.max(query.limit, REGION_SCAN_ROWS));
+
+  // Rows with a region column match on it; the rest have to mention the region
+  const mainRegion = extractMainRegion(query.region);
+  const tagged = rows.filter(row => row.region && row.region.toLowerCase().includes(mainRegion));
+  const untagged = rows.filter(row => !row.region);
+  return [...tagged, ...filterByRegion(untagged, query.region)].slice(0, query.limit);
+}
+
+function normalizeDatasetRows(rows: TweetData[], query: SourceQuery): UnifiedPost[] {
+  const createdAt = new Date().toISOString();
+  const prefix = query.dataset ? `dataset-${query.dataset}` : 'dataset';
+  return rows.map((row, index) => ({
+    text: row.text,
+    createdAt: row.createdAt ?? createdAt,
+    source: 'dataset',
+    uri: row.id ? `${prefix}:${row.id}` : `${prefix}-${index}`,
+    cid: `${prefix}-${index}`,
+    lat: row.lat,
+    lon: row.lon,
+    region: row.region ?? query.region,
+    language: normalizeLanguage(row.language),
+  }));
+}
+
+export const datasetSource: SourceAdapter<TweetData> = {
+  id: 'dataset',
+  label: 'Dataset (disaster tweets or an uploaded corpus)',
+  kind: 'social',
+  enabledByDefault: false,
+  defaultLimit: 100,
+  supportsTimeWindow: false,
+  isConfigured: () => findDatasetPath() !== null || listStoredDatasets().length > 0,
+  fetch: fetchDataset,
+  normalize: normalizeDatasetRows,
+};
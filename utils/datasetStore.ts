@@ -0,0 +1,186 @@
+// =====================
+// UPLOADED DATASETS
+// =====================
+// Corpora uploaded through /api/datasets, kept on disk next to a small JSON description
+// (name, format, column mapping, row counts). Files are streamed to disk and then
+// streamed through the loader once to check that the mapping finds text.
+//
+// Optional environment variables:
+// - DATASET_UPLOAD_DIR (defaults to ".pulselens/datasets")
+// - DATASET_MAX_UPLOAD_MB (largest accepted upload, default 50)
+
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Transform, type Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { streamDataset, type DatasetColumnMap, type DatasetFormat, type DatasetLoadOptions, type DatasetStats, type TweetData } from './loadDataset';
+
+export const DEFAULT_DATASET_DIR = path.join(process.cwd(), '.pulselens', 'datasets');
+const DEFAULT_MAX_UPLOAD_MB = 50;
+
+export interface StoredDataset {
+  id: string;
+  name: string; // Display name given at upload
+  format: DatasetFormat;
+  columns: Partial<DatasetColumnMap>; // Mapping used to read the file
+  rows: number; // Rows with text
+  skipped: number; // Rows without text or that failed to parse
+  located: number; // Rows with coordinates
+  bytes: number;
+  uploadedAt: string;
+}
+
+export interface DatasetUpload {
+  name: string;
+  format: DatasetFormat;
+  columns?: Partial<DatasetColumnMap>;
+}
+
+function getDatasetDir(): string {
+  return process.env.DATASET_UPLOAD_DIR || DEFAULT_DATASET_DIR;
+}
+
+/**
+ * Largest accepted upload in bytes
+ */
+export function getMaxUploadBytes(): number {
+  const mb = Number(process.env.DATASET_MAX_UPLOAD_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+}
+
+/**
+ * Files of a dataset id - ids are generated UUIDs, anything else is refused so callers
+ * can't reach outside the dataset directory
+ * @throws Error if the id isn't a dataset id
+ */
+function datasetPaths(id: string): { meta: string; data: string } {
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    throw new Error(`Invalid dataset id "${id}"`);
+  }
+  const dir = getDatasetDir();
+  return { meta: path.join(dir, `${id}.json`), data: path.join(dir, `${id}.data`) };
+}
+
+/**
+ * Description of an uploaded dataset
+ * @returns null if there's no dataset with this id
+ */
+export function getStoredDataset(id: string): StoredDataset | null {
+  let metaPath: string;
+  try {
+    metaPath = datasetPaths(id).meta;
+  } catch {
+    return null;
+  }
+  if (!fs.existsSync(metaPath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as StoredDataset;
+  } catch (error) {
+    console.warn(`[Datasets] Unreadable description ${metaPath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Every uploaded dataset, newest first
+ */
+export function listStoredDatasets(): StoredDataset[] {
+  const dir = getDatasetDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => getStoredDataset(file.slice(0, -'.json'.length)))
+    .filter((dataset): dataset is StoredDataset => dataset !== null)
+    .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
+/**
+ * Save an upload: stream it to disk, then read it through once to count rows
+ * @param body - Upload stream
+ * @param upload - Name, format and column mapping
+ * @returns The stored dataset's description
+ * @throws Error if the upload is larger than DATASET_MAX_UPLOAD_MB, the mapping finds no
+ * text column, or no row has text (nothing is kept in those cases)
+ */
+export async function saveDataset(body: Readable, upload: DatasetUpload): Promise<StoredDataset> {
+  const id = randomUUID();
+  const paths = datasetPaths(id);
+  const partPath = `${paths.data}.part`;
+  await fs.promises.mkdir(getDatasetDir(), { recursive: true });
+
+  const maxBytes = getMaxUploadBytes();
+  let bytes = 0;
+  const sizeLimit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      if (bytes > maxBytes) {
+        callback(new Error(`Upload is larger than ${Math.round(maxBytes / 1024 / 1024)} MB`));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(body, sizeLimit, fs.createWriteStream(partPath));
+    const stats = await streamDataset(fs.createReadStream(partPath, 'utf-8'), { format: upload.format, columns: upload.columns }, () => {});
+    if (stats.rows === 0) {
+      throw new Error(`No rows with text (${stats.skipped} rows skipped) - check the text column mapping`);
+    }
+
+    const dataset: StoredDataset = {
+      id,
+      name: upload.name,
+      format: upload.format,
+      columns: upload.columns ?? {},
+      rows: stats.rows,
+      skipped: stats.skipped,
+      located: stats.located,
+      bytes,
+      uploadedAt: new Date().toISOString(),
+    };
+    await fs.promises.rename(partPath, paths.data);
+    await fs.promises.writeFile(paths.meta, JSON.stringify(dataset, null, 2), 'utf-8');
+    console.log(`[Datasets] Stored "${dataset.name}" (${id}): ${dataset.rows} rows, ${dataset.located} located, ${bytes} bytes`);
+    return dataset;
+  } catch (error) {
+    await fs.promises.rm(partPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Delete an uploaded dataset
+ * @returns false if there was no dataset with this id
+ */
+export async function deleteDataset(id: string): Promise<boolean> {
+  if (!getStoredDataset(id)) {
+    return false;
+  }
+  const paths = datasetPaths(id);
+  await fs.promises.rm(paths.data, { force: true });
+  await fs.promises.rm(paths.meta, { force: true });
+  return true;
+}
+
+/**
+ * Stream rows of an uploaded dataset with its stored format and column mapping
+ * @throws Error if there's no dataset with this id
+ */
+export async function streamStoredDataset(
+  id: string,
+  options: Pick<DatasetLoadOptions, 'offset' | 'limit'>,
+  onRow: (row: TweetData, index: number) => boolean | void
+): Promise<DatasetStats> {
+  const dataset = getStoredDataset(id);
+  if (!dataset) {
+    throw new Error(`Dataset "${id}" not found`);
+  }
+  const input = fs.createReadStream(datasetPaths(id).data, 'utf-8');
+  return streamDataset(input, { ...options, format: dataset.format, columns: dataset.columns }, onRow);
+}
@@ -0,0 +1,134 @@
+// =====================
+// FEED CATALOG
+// =====================
+// RSS/Atom feeds tagged by country, region and language.
+// Country-level feeds are used for any region in that country ("paris" -> France);
+// feeds with `regions` are only used for those regions (or the country itself).
+//
+// Optional environment variable:
+// - FEED_CATALOG_PATH (JSON file with an array of FeedCatalogEntry - replaces the built-in catalog)
+
+import fs from 'fs';
+
+import { countryCodeMap } from './countryMap';
+
+export interface FeedCatalogEntry {
+  url: string;
+  name: string; // Outlet name, e.g. "BBC News - London"
+  country: string | null; // Country name as in countryCodeMap ("united kingdom"); null for international feeds
+  regions?: string[]; // Cities/states the feed covers, lowercase ("london")
+  language: string; // ISO 639-1, e.g. "en", "fr"
+}
+
+export const DEFAULT_FEED_CATALOG: FeedCatalogEntry[] = [
+  // International
+  { url: 'https://feeds.bbci.co.uk/news/world/rss.xml', name: 'BBC News - World', country: null, language: 'en' },
+  { url: 'https://www.aljazeera.com/xml/rss/all.xml', name: 'Al Jazeera', country: null, language: 'en' },
+
+  // United States
+  { url: 'https://feeds.npr.org/1001/rss.xml', name: 'NPR News', country: 'united states', language: 'en' },
+  { url: 'https://rss.nytimes.com/services/xml/rss/nyt/NYRegion.xml', name: 'New York Times - N.Y.', country: 'united states', regions: ['new york', 'nyc'], language: 'en' },
+  { url: 'https://www.latimes.com/california/rss2.0.xml', name: 'Los Angeles Times - California', country: 'united states', regions: ['los angeles', 'california'], language: 'en' },
+
+  // Canada
+  { url: 'https://www.cbc.ca/webfeed/rss/rss-topstories', name: 'CBC News', country: 'canada', language: 'en' },
+
+  // United Kingdom
+  { url: 'https://feeds.bbci.co.uk/news/uk/rss.xml', name: 'BBC News - UK', country: 'united kingdom', language: 'en' },
+  { url: 'https://feeds.bbci.co.uk/news/england/london/rss.xml', name: 'BBC News - London', country: 'united kingdom', regions: ['london'], language: 'en' },
+
+  // France
+  { url: 'https://www.lemonde.fr/rss/une.xml', name: 'Le Monde', country: 'france', language: 'fr' },
+  { url: 'https://www.france24.com/fr/france/rss', name: 'France 24', country: 'france', language: 'fr' },
+
+  // Germany
+  { url: 'https://www.tagesschau.de/xml/rss2', name: 'tagesschau.de', country: 'germany', language: 'de' },
+
+  // Spain
+  { url: 'https://feeds.elpais.com/mrss-s/pages/ep/site/elpais.com/portada', name: 'El País', country: 'spain', language: 'es' },
+
+  // Japan
+  { url: 'https://www3.nhk.or.jp/rss/news/cat0.xml', name: 'NHK News', country: 'japan', language: 'ja' },
+
+  // Brazil
+  { url: 'https://g1.globo.com/rss/g1/', name: 'g1', country: 'brazil', language: 'pt' },
+
+  // India
+  { url: 'https://www.thehindu.com/news/national/feeder/default.rss', name: 'The Hindu - National', country: 'india', language: 'en' },
+
+  // Nigeria
+  { url: 'https://www.premiumtimesng.com/feed', name: 'Premium Times', country: 'nigeria', language: 'en' },
+
+  // Australia
+  { url: 'https://www.abc.net.au/news/feed/51120/rss.xml', name: 'ABC News', country: 'australia', language: 'en' },
+];
+
+let catalog: FeedCatalogEntry[] | null = null;
+
+function isCatalogEntry(value: unknown): value is FeedCatalogEntry {
+  const entry = value as FeedCatalogEntry;
+  return !!entry
+    && typeof entry.url === 'string'
+    && typeof entry.name === 'string'
+    && (entry.country === null || typeof entry.country === 'string')
+    && (entry.regions === undefined || (Array.isArray(entry.regions) && entry.regions.every(r => typeof r === 'string')))
+    && typeof entry.language === 'string';
+}
+
+/**
+ * The feed catalog: FEED_CATALOG_PATH if set and valid, otherwise the built-in one
+ * Loaded once per process
+ */
+export function getFeedCatalog(): FeedCatalogEntry[] {
+  if (catalog) {
+    return catalog;
+  }
+
+  const catalogPath = process.env.FEED_CATALOG_PATH;
+  if (catalogPath) {
+    try {
+      const parsed: unknown = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
+      if (!Array.isArray(parsed)) {
+        throw new Error('expected an array of feeds');
+      }
+      const valid = parsed.filter(isCatalogEntry);
+      if (valid.length < parsed.length) {
+        console.warn(`[Feeds] Skipping ${parsed.length - valid.length} invalid entries in ${catalogPath}`);
+      }
+      catalog = valid;
+      console.log(`[Feeds] Loaded ${valid.length} feeds from ${catalogPath}`);
+      return catalog;
+    } catch (err) {
+      console.error(`[Feeds] ❌ Could not load FEED_CATALOG_PATH (${catalogPath}), using built-in catalog:`, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  catalog = DEFAULT_FEED_CATALOG;
+  return catalog;
+}
+
+/**
+ * Feeds covering a region
+ * - No region: international feeds plus every country-level feed
+ * - Country ("france"): that country's feeds, including its regional ones
+ * - City/state ("london"): that country's country-level feeds plus feeds tagged with the region
+ * @param region - Region name as typed by the user
+ */
+export function getFeedsForRegion(region?: string): FeedCatalogEntry[] {
+  const feeds = getFeedCatalog();
+  if (!region) {
+    return feeds.filter(feed => !feed.regions?.length);
+  }
+
+  const normalized = region.toLowerCase().trim();
+  const countryCode = countryCodeMap[normalized];
+
+  return feeds.filter(feed => {
+    if (!feed.country) return false;
+    const sameCountry = feed.country === normalized || (!!countryCode && countryCodeMap[feed.country] === countryCode);
+    if (!feed.regions?.length) {
+      return sameCountry;
+    }
+    return feed.regions.includes(normalized) || feed.country === normalized;
+  });
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeEntities, parseFeed } from './feedParser';
+
+// =====================
+// FIXTURES
+// =====================
+const RSS = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Valley News &amp; Weather</title>
+    <link>https://news.example/</link>
+    <item>
+      <title>Flood warning for the valley &#8211; residents told to leave</title>
+      <link>https://news.example/flood</link>
+      <guid isPermaLink="false">flood-1</guid>
+      <description><![CDATA[<p>Water levels <b>rose</b> overnight &amp; roads closed.</p>]]></description>
+      <pubDate>Mon, 05 Jan 2026 08:30:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Council &lt;b&gt;approves&lt;/b&gt; repairs</title>
+      <atom:link href="https://news.example/repairs" rel="alternate"/>
+      <description>&lt;p&gt;Work starts in &lsquo;spring&rsquo;.&lt;/p&gt;</description>
+      <dc:date>2026-01-04T10:00:00Z</dc:date>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="text">Harbour Watch</title>
+  <link href="https://harbour.example/" rel="self"/>
+  <entry>
+    <title type="html">Storm &amp;amp; surge</title>
+    <link rel="edit" href="https://harbour.example/api/1"/>
+    <link rel="alternate" type="text/html" href="https://harbour.example/storm"/>
+    <id>tag:harbour.example,2026:1</id>
+    <updated>2026-01-06T12:00:00Z</updated>
+    <published>2026-01-06T09:00:00Z</published>
+    <summary>Boats were moved inland.</summary>
+  </entry>
+  <entry>
+    <title>Quiet week</title>
+    <link href="https://harbour.example/quiet"/>
+    <content type="html">&lt;p&gt;Nothing to report.&lt;/p&gt;</content>
+    <updated>2026-01-02T12:00:00Z</updated>
+  </entry>
+</feed>`;
+
+// =====================
+// TESTS
+// =====================
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hex references and leaves unknown ones alone', () => {
+    expect(decodeEntities('a &amp; b &#8217; &#x2014; &bogus; &nbsp;')).toBe('a & b ’ — &bogus;  ');
+  });
+});
+
+describe('parseFeed', () => {
+  it('parses RSS 2.0 items, unwrapping CDATA and entity-encoded HTML', () => {
+    const feed = parseFeed(RSS);
+
+    expect(feed.format).toBe('rss');
+    expect(feed.title).toBe('Valley News & Weather');
+    expect(feed.items).toEqual([
+      {
+        id: 'flood-1',
+        title: 'Flood warning for the valley – residents told to leave',
+        link: 'https://news.example/flood',
+        summary: 'Water levels rose overnight & roads closed.',
+        publishedAt: Date.parse('2026-01-05T08:30:00Z'),
+      },
+      {
+        // No <link> or <guid> - the atom:link stands in for both
+        id: 'https://news.example/repairs',
+        title: 'Council approves repairs',
+        link: 'https://news.example/repairs',
+        summary: 'Work starts in ‘spring’.',
+        publishedAt: Date.parse('2026-01-04T10:00:00Z'),
+      },
+    ]);
+  });
+
+  it('parses Atom entries, preferring the alternate link and the published date', () => {
+    const feed = parseFeed(ATOM);
+
+    expect(feed.format).toBe('atom');
+    expect(feed.title).toBe('Harbour Watch');
+    expect(feed.items[0]).toEqual({
+      id: 'tag:harbour.example,2026:1',
+      title: 'Storm & surge',
+      link: 'https://harbour.example/storm',
+      summary: 'Boats were moved inland.',
+      publishedAt: Date.parse('2026-01-06T09:00:00Z'),
+    });
+    expect(feed.items[1]).toMatchObject({
+      id: 'https://harbour.example/quiet',
+      summary: 'Nothing to report.',
+      publishedAt: Date.parse('2026-01-02T12:00:00Z'),
+    });
+  });
+
+  it('tolerates malformed entries', () => {
+    const feed = parseFeed(`<rss><channel><title>Broken</title>
+      <item><title>No date or link</title><pubDate>sometime last week</pubDate></item>
+      <item><title>Empty</title><description></description></item>
+      <item><title>Never closed</title>
+    </channel></rss>`);
+
+    expect(feed.items).toEqual([
+      { id: '', title: 'No date or link', link: '', summary: '', publishedAt: null },
+      { id: '', title: 'Empty', link: '', summary: '', publishedAt: null },
+    ]);
+  });
+
+  it('rejects documents that are not feeds', () => {
+    expect(() => parseFeed('<html><body>Not a feed</body></html>')).toThrow('Not an RSS or Atom feed');
+  });
+});
@@ -0,0 +1,146 @@
+// =====================
+// RSS / ATOM PARSER
+// =====================
+// Minimal feed parser for RSS 2.0, RSS 1.0 (RDF) and Atom.
+// Only pulls out what we map: title, link, summary, published date and id.
+// Feeds are small and well-formed enough in practice that tag matching is
+// sufficient - no full XML parser needed.
+
+export interface FeedItem {
+  id: string; // guid / atom:id, falling back to the link
+  title: string;
+  link: string;
+  summary: string; // Plain text (HTML stripped)
+  publishedAt: number | null; // Epoch ms, null if the item has no parseable date
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom';
+  title: string;
+  items: FeedItem[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+/**
+ * Decode XML/HTML character references ("&amp;", "&#8217;", "&#x2019;")
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code = ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[ref.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Turn element content into plain text: unwrap CDATA, strip HTML, decode entities
+ */
+function toPlainText(raw: string): string {
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  // Outside CDATA, embedded HTML arrives entity-encoded ("&lt;p&gt;") - decode before stripping
+  const html = cdata ? cdata[1] : decodeEntities(raw);
+  return decodeEntities(html.replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeTag(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Content of the first child element with one of the given names
+ */
+function childText(block: string, names: string[]): string {
+  for (const name of names) {
+    const tag = escapeTag(name);
+    const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) {
+      return toPlainText(match[1]);
+    }
+  }
+  return '';
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]) : null;
+}
+
+/**
+ * Atom links are <link href="..." rel="alternate"/>; prefer the alternate (HTML) link
+ */
+function atomLink(block: string): string {
+  const links = block.match(/<(?:atom:)?link\b[^>]*>/gi) || [];
+  let fallback = '';
+  for (const link of links) {
+    const href = attribute(link, 'href');
+    if (!href) continue;
+    const rel = attribute(link, 'rel');
+    if (!rel || rel === 'alternate') {
+      return href;
+    }
+    fallback = fallback || href;
+  }
+  return fallback;
+}
+
+function parseDate(value: string): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Blocks of every element with the given name (e.g. all <item>s)
+ */
+function blocks(xml: string, name: string): string[] {
+  const tag = escapeTag(name);
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...xml.matchAll(pattern)].map(match => match[1]);
+}
+
+/**
+ * Parse an RSS or Atom document
+ * @throws Error if the document has neither <rss>/<rdf:RDF> nor <feed>
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  if (/<feed[\s>]/i.test(xml)) {
+    const items = blocks(xml, 'entry').map(entry => {
+      const link = atomLink(entry);
+      return {
+        id: childText(entry, ['id']) || link,
+        title: childText(entry, ['title']),
+        link,
+        summary: childText(entry, ['summary', 'content']),
+        publishedAt: parseDate(childText(entry, ['published', 'updated'])),
+      };
+    });
+    const header = xml.split(/<entry[\s>]/i)[0];
+    return { format: 'atom', title: childText(header, ['title']), items };
+  }
+
+  if (/<rss[\s>]/i.test(xml) || /<rdf:RDF[\s>]/i.test(xml)) {
+    const items = blocks(xml, 'item').map(item => {
+      // RSS 2.0 <link> is text; some feeds only carry an atom:link
+      const link = childText(item, ['link']) || atomLink(item);
+      return {
+        id: childText(item, ['guid']) || link,
+        title: childText(item, ['title']),
+        link,
+        summary: childText(item, ['description', 'content:encoded']),
+        publishedAt: parseDate(childText(item, ['pubDate', 'dc:date'])),
+      };
+    });
+    const header = xml.split(/<item[\s>]/i)[0];
+    return { format: 'rss', title: childText(header, ['title']), items };
+  }
+
+  throw new Error('Not an RSS or Atom feed');
+}
@@ -0,0 +1,265 @@
+// =====================
+// FIREHOSE CAPTURES
+// =====================
+// Record raw Jetstream messages to an NDJSON file (one message per line, exactly
+// as received) and replay them later through the same message handler as the
+// live connection - for demos and development without network access.
+//
+// Replay is paced by each event's time_us, so speed 1 reproduces the original
+// timing, speed 10 plays ten times faster, and speed 0 plays as fast as possible.
+// Messages are handled strictly in file order, so a replay is deterministic.
+//
+// Optional environment variable:
+// - FIREHOSE_CAPTURE_DIR (defaults to ".pulselens/captures")
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+
+export const DEFAULT_CAPTURE_DIR = path.join(process.cwd(), '.pulselens', 'captures');
+
+// Yield to the event loop this often when replaying at full speed
+const YIELD_EVERY_MESSAGES = 500;
+
+/**
+ * Resolve a capture name ("2024-06-01-evening") to a file in the capture directory
+ * Names are restricted to a single path segment so API callers can't read arbitrary files
+ * @throws Error if the name contains anything but letters, digits, ".", "_" and "-"
+ */
+export function resolveCapturePath(name: string): string {
+  const base = name.endsWith('.ndjson') ? name.slice(0, -'.ndjson'.length) : name;
+  if (!/^[\w.-]+$/.test(base) || base.startsWith('.')) {
+    throw new Error(`Invalid capture name "${name}" (use letters, digits, ".", "_" and "-")`);
+  }
+  return path.join(process.env.FIREHOSE_CAPTURE_DIR || DEFAULT_CAPTURE_DIR, `${base}.ndjson`);
+}
+
+// =====================
+// RECORDER
+// =====================
+export interface FirehoseRecorderStats {
+  path: string;
+  messages: number;
+  bytes: number;
+  startedAt: string;
+}
+
+export class FirehoseRecorder {
+  private filePath: string;
+  private stream: fs.WriteStream;
+  private messages: number = 0;
+  private bytes: number = 0;
+  private startedAt: number = Date.now();
+  private closed: boolean = false;
+
+  /**
+   * @param filePath - Capture file (appended to if it already exists)
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.stream = fs.createWriteStream(filePath, { flags: 'a', encoding: 'utf-8' });
+    this.stream.on('error', (err) => {
+      console.error(`[Capture] ❌ Failed writing ${this.filePath}:`, err.message);
+      this.closed = true;
+    });
+    console.log(`[Capture] 🔴 Recording firehose to ${filePath}`);
+  }
+
+  /**
+   * Append one raw message
+   */
+  record(data: Buffer | ArrayBuffer | Buffer[] | string): void {
+    if (this.closed) {
+      return;
+    }
+
+    const text = typeof data === 'string'
+      ? data
+      : Array.isArray(data)
+        ? Buffer.concat(data).toString('utf-8')
+        : Buffer.from(data as ArrayBuffer).toString('utf-8');
+    // Jetstream sends single-line JSON; guard the line format anyway
+    const line = `${text.replace(/\r?\n/g, ' ')}\n`;
+
+    this.stream.write(line);
+    this.messages++;
+    this.bytes += Buffer.byteLength(line);
+  }
+
+  /**
+   * Flush and close the file
+   */
+  close(): Promise<void> {
+    if (this.closed) {
+      return Promise.resolve();
+    }
+    this.closed = true;
+    console.log(`[Capture] ⏹️  Recorded ${this.messages} messages to ${this.filePath}`);
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+
+  getStats(): FirehoseRecorderStats {
+    return {
+      path: this.filePath,
+      messages: this.messages,
+      bytes: this.bytes,
+      startedAt: new Date(this.startedAt).toISOString(),
+    };
+  }
+}
+
+// =====================
+// REPLAY
+// =====================
+export interface FirehoseReplayOptions {
+  speed?: number; // 1 = original timing, 10 = 10x faster, 0 = as fast as possible (default 1)
+  loop?: boolean; // Start over at the end of the file
+  maxGapMs?: number; // Cap on any single wait, so quiet stretches don't stall a demo (default 5s)
+}
+
+export interface FirehoseReplayStats {
+  path: string;
+  speed: number;
+  loop: boolean;
+  messages: number; // Messages replayed (across loops)
+  loops: number; // Completed passes over the file
+  finished: boolean;
+  startedAt: string;
+}
+
+export class FirehoseReplay {
+  private filePath: string;
+  private onMessage: (data: string) => void | Promise<void>;
+  private speed: number;
+  private loop: boolean;
+  private maxGapMs: number;
+  private stopped: boolean = false;
+  private finished: boolean = false;
+  private messages: number = 0;
+  private loops: number = 0;
+  private startedAt: number = Date.now();
+  private sleepTimer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+
+  /**
+   * @param filePath - NDJSON capture written by FirehoseRecorder
+   * @param onMessage - Message handler (usually createJetstreamMessageHandler)
+   * @param options - Speed and looping
+   */
+  constructor(
+    filePath: string,
+    onMessage: (data: string) => void | Promise<void>,
+    options: FirehoseReplayOptions = {}
+  ) {
+    this.filePath = filePath;
+    this.onMessage = onMessage;
+    this.speed = Math.max(0, options.speed ?? 1);
+    this.loop = options.loop ?? false;
+    this.maxGapMs = options.maxGapMs ?? 5000;
+  }
+
+  /**
+   * Play the capture
+   * @returns Resolves when the file has been played through (or the replay was stopped)
+   * @throws Error if the capture file doesn't exist
+   */
+  async start(): Promise<void> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Capture not found: ${this.filePath}`);
+    }
+
+    console.log(`[Replay] ▶️  Replaying ${this.filePath} at ${this.speed === 0 ? 'full' : `${this.speed}x`} speed${this.loop ? ' (looping)' : ''}`);
+    this.startedAt = Date.now();
+
+    do {
+      await this.playOnce();
+      if (!this.stopped) {
+        this.loops++;
+      }
+    } while (this.loop && !this.stopped && this.messages > 0);
+
+    this.finished = true;
+    console.log(`[Replay] ⏹️  Replay ${this.stopped ? 'stopped' : 'finished'} after ${this.messages} messages`);
+  }
+
+  /**
+   * Stop after the current message
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = null;
+    }
+    this.wake?.();
+  }
+
+  getStats(): FirehoseReplayStats {
+    return {
+      path: this.filePath,
+      speed: this.speed,
+      loop: this.loop,
+      messages: this.messages,
+      loops: this.loops,
+      finished: this.finished,
+      startedAt: new Date(this.startedAt).toISOString(),
+    };
+  }
+
+  private async playOnce(): Promise<void> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.filePath, { encoding: 'utf-8' }),
+      crlfDelay: Infinity,
+    });
+
+    let previousTimeUs: number | null = null;
+    try {
+      for await (const line of lines) {
+        if (this.stopped) break;
+        if (!line.trim()) continue;
+
+        const timeUs = eventTimeUs(line);
+        if (timeUs !== null) {
+          if (previousTimeUs !== null && this.speed > 0) {
+            const gapMs = Math.min(this.maxGapMs, Math.max(0, (timeUs - previousTimeUs) / 1000 / this.speed));
+            if (gapMs >= 1) {
+              await this.sleep(gapMs);
+              if (this.stopped) break;
+            }
+          }
+          previousTimeUs = timeUs;
+        }
+
+        await this.onMessage(line);
+        this.messages++;
+
+        if (this.speed === 0 && this.messages % YIELD_EVERY_MESSAGES === 0) {
+          // Let HTTP requests in between batches
+          await new Promise(resolve => setImmediate(resolve));
+        }
+      }
+    } finally {
+      lines.close();
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(() => {
+        this.sleepTimer = null;
+        this.wake = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
+
+/**
+ * Read time_us from a raw Jetstream message without a full parse
+ */
+function eventTimeUs(line: string): number | null {
+  const match = line.match(/"time_us"\s*:\s*(\d+)/);
+  return match ? Number(match[1]) : null;
+}
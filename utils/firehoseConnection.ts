@@ -0,0 +1,234 @@
+// =====================
+// FIREHOSE CONNECTION
+// =====================
+// Owns the WebSocket behind a long-running firehose subscription:
+// - One object per subscription, so stop() closes whichever socket is current,
+//   no matter how many times it has reconnected
+// - Round-robin failover across a list of endpoints
+// - Exponential backoff with jitter between reconnects (reset once messages flow again)
+//
+// Optional environment variable:
+// - JETSTREAM_ENDPOINTS (comma-separated subscribe URLs, defaults to the public Bluesky instances)
+
+import WebSocket from 'ws';
+
+import type { FirehoseMetrics } from './firehoseMetrics';
+
+// Public Jetstream instances run by Bluesky
+// https://github.com/bluesky-social/jetstream#public-instances
+export const DEFAULT_JETSTREAM_ENDPOINTS = [
+  'wss://jetstream2.us-east.bsky.network/subscribe',
+  'wss://jetstream1.us-east.bsky.network/subscribe',
+  'wss://jetstream1.us-west.bsky.network/subscribe',
+  'wss://jetstream2.us-west.bsky.network/subscribe',
+];
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+/**
+ * Jetstream endpoints from JETSTREAM_ENDPOINTS, or the public defaults
+ */
+export function getJetstreamEndpoints(): string[] {
+  const configured = (process.env.JETSTREAM_ENDPOINTS || '')
+    .split(',')
+    .map(endpoint => endpoint.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : [...DEFAULT_JETSTREAM_ENDPOINTS];
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based)
+ * "Equal jitter": half the exponential delay is fixed, the other half random, so
+ * many clients dropped at once don't reconnect in lockstep
+ */
+export function backoffDelay(
+  attempt: number,
+  initialDelayMs: number = INITIAL_RECONNECT_DELAY_MS,
+  maxDelayMs: number = MAX_RECONNECT_DELAY_MS
+): number {
+  const exponential = Math.min(maxDelayMs, initialDelayMs * 2 ** Math.min(attempt, 30));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+export interface FirehoseConnectionOptions {
+  // Endpoints to rotate through (defaults to getJetstreamEndpoints())
+  endpoints?: string[];
+  // Full URL for an endpoint - called on every (re)connect so filters and cursors stay current
+  buildUrl?: (endpoint: string) => string;
+  onOpen?: (ws: WebSocket, endpoint: string) => void;
+  onMessage: (data: WebSocket.Data) => void;
+  // Called whenever the socket closes, before any reconnect is scheduled
+  onClose?: (code: number, reason: string) => void;
+  metrics?: FirehoseMetrics;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  label?: string; // Log prefix, e.g. "Firehose"
+}
+
+export interface FirehoseConnectionStats {
+  endpoint: string | null; // Endpoint of the current (or last) socket
+  endpoints: string[];
+  consecutiveFailures: number; // Reconnects since messages last flowed
+  nextReconnectAt: string | null;
+}
+
+export class FirehoseConnection {
+  private options: FirehoseConnectionOptions;
+  private endpoints: string[];
+  private endpointIndex: number = 0;
+  private ws: WebSocket | null = null;
+  private running: boolean = false;
+  private receivedSinceOpen: boolean = false;
+  private consecutiveFailures: number = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private nextReconnectAt: number | null = null;
+
+  constructor(options: FirehoseConnectionOptions) {
+    this.options = options;
+    this.endpoints = options.endpoints?.length ? [...options.endpoints] : getJetstreamEndpoints();
+  }
+
+  /**
+   * Open the connection (no-op if already running)
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.connect();
+  }
+
+  /**
+   * Close the current socket and cancel any pending reconnect
+   */
+  stop(): void {
+    this.running = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.nextReconnectAt = null;
+
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.removeAllListeners();
+      // Closing a socket that's still connecting emits an error - swallow it
+      ws.on('error', () => {});
+      ws.close();
+      this.options.metrics?.recordDisconnected();
+    }
+  }
+
+  /**
+   * Send a message on the open socket
+   * @returns false if there is no open socket
+   */
+  send(data: string): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.ws.send(data);
+    return true;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  isOpen(): boolean {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  getStats(): FirehoseConnectionStats {
+    return {
+      endpoint: this.endpoints[this.endpointIndex] ?? null,
+      endpoints: [...this.endpoints],
+      consecutiveFailures: this.consecutiveFailures,
+      nextReconnectAt: this.nextReconnectAt !== null ? new Date(this.nextReconnectAt).toISOString() : null,
+    };
+  }
+
+  private get label(): string {
+    return this.options.label || 'Firehose';
+  }
+
+  private connect(): void {
+    const endpoint = this.endpoints[this.endpointIndex];
+    const url = this.options.buildUrl ? this.options.buildUrl(endpoint) : endpoint;
+    const ws = new WebSocket(url);
+    this.ws = ws;
+    this.receivedSinceOpen = false;
+
+    ws.on('open', () => {
+      if (ws !== this.ws) return;
+      console.log(`[${this.label}] ✅ Connected to ${endpoint}`);
+      this.options.metrics?.recordConnected();
+      this.options.onOpen?.(ws, endpoint);
+    });
+
+    ws.on('message', (data: WebSocket.Data) => {
+      if (ws !== this.ws) return;
+      if (!this.receivedSinceOpen) {
+        // Messages are flowing - the endpoint is healthy, so start backoff over
+        this.receivedSinceOpen = true;
+        this.consecutiveFailures = 0;
+      }
+      this.options.onMessage(data);
+    });
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      if (ws !== this.ws) return;
+      this.ws = null;
+      this.options.metrics?.recordDisconnected();
+      this.options.onClose?.(code, reason?.toString() || '');
+
+      if (!this.running) {
+        console.log(`[${this.label}] Connection closed (code: ${code}) - stopped, not reconnecting`);
+        return;
+      }
+      this.scheduleReconnect(code, reason?.toString() || 'none');
+    });
+
+    ws.on('error', (error: Error) => {
+      if (ws !== this.ws) return;
+      // A 'close' always follows, which handles the reconnect
+      if (error.message.includes('Unexpected server response')) {
+        console.warn(`[${this.label}] ⚠️  ${endpoint} rejected the connection: ${error.message}`);
+      } else {
+        console.error(`[${this.label}] ❌ WebSocket error on ${endpoint}:`, error.message);
+      }
+    });
+  }
+
+  /**
+   * Move to the next endpoint and reconnect after a jittered backoff
+   */
+  private scheduleReconnect(code: number, reason: string): void {
+    const delay = backoffDelay(
+      this.consecutiveFailures,
+      this.options.initialDelayMs ?? INITIAL_RECONNECT_DELAY_MS,
+      this.options.maxDelayMs ?? MAX_RECONNECT_DELAY_MS
+    );
+    this.consecutiveFailures++;
+    this.endpointIndex = (this.endpointIndex + 1) % this.endpoints.length;
+    this.nextReconnectAt = Date.now() + delay;
+
+    console.log(
+      `[${this.label}] ⚠️  Connection closed (code: ${code}, reason: ${reason}). ` +
+      `Reconnecting to ${this.endpoints[this.endpointIndex]} in ${(delay / 1000).toFixed(1)}s (attempt ${this.consecutiveFailures})...`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.nextReconnectAt = null;
+      if (!this.running) {
+        return;
+      }
+      this.options.metrics?.recordReconnect();
+      this.connect();
+    }, delay);
+  }
+}
@@ -0,0 +1,208 @@
+// =====================
+// FIREHOSE CURSOR
+// =====================
+// Tracks the last Jetstream `time_us` (or relay `seq`) we processed and persists
+// it to disk, so a reconnect (or a server restart) can resume with `?cursor=` and
+// replay the gap instead of starting from "now".
+//
+// Every relay numbers `seq` on its own, so relay cursors are kept per endpoint URL:
+// after a failover the new relay resumes from its own last seq, never another's.
+//
+// Optional environment variables:
+// - FIREHOSE_CURSOR_PATH (defaults to ".pulselens/firehose-cursor.json")
+// - RELAY_CURSOR_PATH (defaults to ".pulselens/relay-cursor.json")
+
+import fs from 'fs';
+import path from 'path';
+
+// Jetstream replays from the cursor inclusively, but events around a disconnect
+// can arrive slightly out of order. Rewinding a couple of seconds makes the replay
+// gapless; the buffer dedupes by CID so the overlap is harmless.
+const CURSOR_REWIND_US = 2 * 1000 * 1000;
+
+// Don't hit the disk on every message - posts arrive many times per second
+const PERSIST_INTERVAL_MS = 5000;
+
+const DEFAULT_CURSOR_PATH = path.join(process.cwd(), '.pulselens', 'firehose-cursor.json');
+const DEFAULT_RELAY_CURSOR_PATH = path.join(process.cwd(), '.pulselens', 'relay-cursor.json');
+
+// "time_us": Jetstream event time in microseconds
+// "seq": relay sequence number (com.atproto.sync.subscribeRepos) - not a time, never rewound
+export type FirehoseCursorKind = 'time_us' | 'seq';
+
+export interface FirehoseCursorStats {
+  cursor: number | null; // Last processed time_us (microseconds since epoch) or relay seq
+  cursorKind: FirehoseCursorKind;
+  cursorEndpoint: string | null; // Relay the seq belongs to (null for time_us)
+  lagMs: number | null; // How far behind wall-clock the last processed event is
+  gapsRecovered: number; // Reconnects that resumed from a cursor
+}
+
+export class FirehoseCursor {
+  private timeUs: number | null = null;
+  private lastEventAt: number | null = null; // Event time of the last update (ms)
+  private gapsRecovered: number = 0;
+  private lastPersistedAt: number = 0;
+  private dirty: boolean = false;
+  private loaded: boolean = false;
+  private filePath: string;
+  private kind: FirehoseCursorKind;
+  private endpoint: string | null = null; // Relay whose seq is current ("seq" cursors only)
+  private seqByEndpoint: Record<string, number> = {};
+
+  constructor(filePath?: string, kind: FirehoseCursorKind = 'time_us') {
+    this.kind = kind;
+    this.filePath = filePath || (kind === 'seq'
+      ? process.env.RELAY_CURSOR_PATH || DEFAULT_RELAY_CURSOR_PATH
+      : process.env.FIREHOSE_CURSOR_PATH || DEFAULT_CURSOR_PATH);
+  }
+
+  /**
+   * Switch to the seq numbering of a relay endpoint - call before (re)connecting to it
+   * No-op for time_us cursors (Jetstream time_us means the same on every instance)
+   */
+  useEndpoint(endpoint: string): void {
+    if (this.kind !== 'seq' || endpoint === this.endpoint) {
+      return;
+    }
+    this.load();
+    this.persist();
+    this.endpoint = endpoint;
+    this.timeUs = this.seqByEndpoint[endpoint] ?? null;
+    this.lastEventAt = null;
+  }
+
+  /**
+   * Load the persisted cursor from disk (only reads the file once)
+   * @returns The persisted time_us/seq, or null if there is none
+   */
+  load(): number | null {
+    if (this.loaded) {
+      return this.timeUs;
+    }
+    this.loaded = true;
+
+    try {
+      if (!fs.existsSync(this.filePath)) {
+        return this.timeUs;
+      }
+
+      const saved = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (this.kind === 'seq') {
+        this.loadSeqByEndpoint(saved?.seqByEndpoint);
+        return this.timeUs;
+      }
+      const value = saved?.timeUs;
+      if (typeof value === 'number' && value > 0) {
+        // Keep whichever is newer in case we already saw messages
+        this.timeUs = Math.max(this.timeUs ?? 0, value);
+        this.lastEventAt = Math.floor(this.timeUs / 1000);
+        console.log(`[FirehoseCursor] Loaded cursor ${value} from ${this.filePath}`);
+      }
+    } catch (err) {
+      console.warn('[FirehoseCursor] Could not read persisted cursor, starting from now:', err instanceof Error ? err.message : String(err));
+    }
+
+    return this.timeUs;
+  }
+
+  private loadSeqByEndpoint(saved: unknown): void {
+    if (!saved || typeof saved !== 'object') {
+      return;
+    }
+    for (const [endpoint, value] of Object.entries(saved as Record<string, unknown>)) {
+      if (typeof value === 'number' && value > 0) {
+        // Keep whichever is newer in case we already saw messages
+        this.seqByEndpoint[endpoint] = Math.max(this.seqByEndpoint[endpoint] ?? 0, value);
+        console.log(`[FirehoseCursor] Loaded seq ${value} for ${endpoint} from ${this.filePath}`);
+      }
+    }
+    if (this.endpoint) {
+      this.timeUs = this.seqByEndpoint[this.endpoint] ?? null;
+    }
+  }
+
+  /**
+   * Record the time_us (or seq) of a processed message
+   * Cursors only move forward, and writes to disk are throttled
+   * @param timeUs - Cursor value
+   * @param eventTime - When the event happened (ms), for lag; derived from time_us when omitted
+   */
+  update(timeUs: number, eventTime?: number): void {
+    if (!Number.isFinite(timeUs) || timeUs <= 0) {
+      return;
+    }
+    if (this.timeUs !== null && timeUs <= this.timeUs) {
+      return;
+    }
+
+    this.timeUs = timeUs;
+    this.dirty = true;
+    if (this.kind === 'seq' && this.endpoint) {
+      this.seqByEndpoint[this.endpoint] = timeUs;
+    }
+    if (eventTime !== undefined && Number.isFinite(eventTime)) {
+      this.lastEventAt = eventTime;
+    } else if (this.kind === 'time_us') {
+      this.lastEventAt = Math.floor(timeUs / 1000);
+    }
+
+    if (Date.now() - this.lastPersistedAt >= PERSIST_INTERVAL_MS) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Write the cursor to disk (atomic: write to a temp file, then rename)
+   */
+  persist(): void {
+    if (!this.dirty || this.timeUs === null) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      const value = this.kind === 'seq' ? { seqByEndpoint: this.seqByEndpoint } : { timeUs: this.timeUs };
+      fs.writeFileSync(tmpPath, JSON.stringify({ ...value, savedAt: new Date().toISOString() }));
+      fs.renameSync(tmpPath, this.filePath);
+      this.dirty = false;
+      this.lastPersistedAt = Date.now();
+    } catch (err) {
+      console.warn('[FirehoseCursor] Failed to persist cursor:', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /**
+   * Cursor value to send with `?cursor=` when (re)connecting
+   * @returns Rewound time_us (seq as-is - relays replay everything after it), or null to start from "now"
+   */
+  resumeFrom(): number | null {
+    const timeUs = this.load();
+    if (timeUs === null) {
+      return null;
+    }
+    return this.kind === 'seq' ? timeUs : Math.max(0, timeUs - CURSOR_REWIND_US);
+  }
+
+  /**
+   * Count a reconnect that resumed from a cursor (the gap gets replayed)
+   */
+  markGapRecovered(): void {
+    this.gapsRecovered++;
+  }
+
+  get(): number | null {
+    return this.timeUs;
+  }
+
+  getStats(): FirehoseCursorStats {
+    return {
+      cursor: this.timeUs,
+      cursorKind: this.kind,
+      cursorEndpoint: this.endpoint,
+      lagMs: this.lastEventAt !== null ? Math.max(0, Date.now() - this.lastEventAt) : null,
+      gapsRecovered: this.gapsRecovered,
+    };
+  }
+}
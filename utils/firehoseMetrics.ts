@@ -0,0 +1,103 @@
+// =====================
+// FIREHOSE METRICS
+// =====================
+// Counters and rolling rates for the live firehose connection,
+// reported by the /api/firehose status endpoint.
+
+// Rates are averaged over the last RATE_WINDOW_SECONDS full seconds
+const RATE_WINDOW_SECONDS = 10;
+
+/**
+ * Events-per-second counter using one bucket per second
+ */
+class RateCounter {
+  private counts: number[] = new Array(RATE_WINDOW_SECONDS + 1).fill(0);
+  private seconds: number[] = new Array(RATE_WINDOW_SECONDS + 1).fill(-1);
+
+  record(count: number = 1): void {
+    const second = Math.floor(Date.now() / 1000);
+    const slot = second % this.counts.length;
+    if (this.seconds[slot] !== second) {
+      this.seconds[slot] = second;
+      this.counts[slot] = 0;
+    }
+    this.counts[slot] += count;
+  }
+
+  perSecond(): number {
+    // Skip the current (partial) second so the rate doesn't dip at each tick
+    const current = Math.floor(Date.now() / 1000);
+    let total = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      const age = current - this.seconds[i];
+      if (age >= 1 && age <= RATE_WINDOW_SECONDS) {
+        total += this.counts[i];
+      }
+    }
+    return Math.round((total / RATE_WINDOW_SECONDS) * 10) / 10;
+  }
+}
+
+export interface FirehoseMetricsSnapshot {
+  connected: boolean;
+  messagesPerSec: number;
+  postsPerSec: number;
+  totalMessages: number;
+  totalPosts: number;
+  parseErrors: number;
+  reconnects: number;
+  lastMessageAt: string | null;
+  connectedSince: string | null;
+}
+
+export class FirehoseMetrics {
+  private messageRate = new RateCounter();
+  private postRate = new RateCounter();
+  private totalMessages: number = 0;
+  private totalPosts: number = 0;
+  private parseErrors: number = 0;
+  private reconnects: number = 0;
+  private lastMessageAt: number | null = null;
+  private connectedSince: number | null = null;
+
+  recordMessage(): void {
+    this.totalMessages++;
+    this.lastMessageAt = Date.now();
+    this.messageRate.record();
+  }
+
+  recordPost(): void {
+    this.totalPosts++;
+    this.postRate.record();
+  }
+
+  recordParseError(): void {
+    this.parseErrors++;
+  }
+
+  recordReconnect(): void {
+    this.reconnects++;
+  }
+
+  recordConnected(): void {
+    this.connectedSince = Date.now();
+  }
+
+  recordDisconnected(): void {
+    this.connectedSince = null;
+  }
+
+  getSnapshot(): FirehoseMetricsSnapshot {
+    return {
+      connected: this.connectedSince !== null,
+      messagesPerSec: this.messageRate.perSecond(),
+      postsPerSec: this.postRate.perSecond(),
+      totalMessages: this.totalMessages,
+      totalPosts: this.totalPosts,
+      parseErrors: this.parseErrors,
+      reconnects: this.reconnects,
+      lastMessageAt: this.lastMessageAt !== null ? new Date(this.lastMessageAt).toISOString() : null,
+      connectedSince: this.connectedSince !== null ? new Date(this.connectedSince).toISOString() : null,
+    };
+  }
+}
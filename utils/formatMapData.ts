@@ -8,9 +8,9 @@
 // 3. Valid GeoJSON FeatureCollection
 
 import type { GeoJSON } from 'geojson';
-import { classifyEmotion } from '../app/utils/classifyEmotion';
+import { classifyEmotion, type EmotionResult } from '../app/utils/classifyEmotion';
 import { spreadAroundRegion } from './spreadUtil';
-import type { UnifiedPost } from './ingestUnified';
+import { sourceKind, type UnifiedPost } from './ingestUnified';
 
 // =====================
 // EMOTION COLOR MAPPING
@@ -41,11 +41,14 @@ interface RegionCoordinates {
  * Converts unified ingestion data into a Mapbox-ready GeoJSON dataset
  * @param posts - Array of unified posts from NewsAPI, GDELT, etc.
  * @param regionCenter - Region center coordinates (required for posts without coordinates)
+ * @param emotions - Optional: emotions already classified for the posts, in the same order
+ * (posts without one are classified here)
  * @returns Promise<GeoJSON.FeatureCollection>
  */
 export async function formatMapData(
   posts: UnifiedPost[],
-  regionCenter: RegionCoordinates
+  regionCenter: RegionCoordinates,
+  emotions?: EmotionResult[]
 ): Promise<GeoJSON.FeatureCollection> {
   // Handle empty posts
   if (!posts || posts.length === 0) {
@@ -57,9 +60,9 @@ export async function formatMapData(
 
   const features: GeoJSON.Feature[] = [];
 
-  for (const p of posts) {
+  for (const [index, p] of posts.entries()) {
     // Classify emotion for this post
-    const emotion = await classifyEmotion(p.text);
+    const emotion = emotions?.[index] ?? await classifyEmotion(p.text);
 
     // Coordinates:
     let coords: [number, number] | null = null;
@@ -112,6 +115,7 @@ export async function formatMapData(
         color: color,
         text: p.text,
         source: p.source,
+        sourceType: sourceKind(p.source), // "social" or "news"
         url: p.uri || null,
         createdAt: p.createdAt,
         tone: p.tone !== undefined ? p.tone : null, // GDELT sentiment score
@@ -3,6 +3,22 @@
 // =====================
 // Fetches the last 15 minutes of GDELT events
 // and converts them into Post-like objects for emotion mapping
+//
+// Articles come from the DOC 2.0 API (ArtList has no coordinates); locations come
+// from the GEO 2.0 API's point data, which lists the articles mentioning each place.
+// Matching the two by URL gives articles real coordinates.
+// Both queries are built from the same typed filters (see gdeltQuery.ts).
+//
+// Optional environment variable:
+// - GDELT_MIN_INTERVAL_MS (minimum gap between GDELT requests from this process, default 2000)
+
+import { buildGdeltDocUrl, buildGdeltGeoUrl, buildGdeltQuery, sliceGdeltWindow, type GdeltQueryOptions } from './gdeltQuery';
+
+// A place an article mentions, from GEO 2.0 point data
+export interface GdeltLocation {
+  name: string; // e.g. "Lyon, Rhone-Alpes, France"
+  coordinates: [number, number]; // [lng, lat]
+}
 
 export interface GdeltEvent {
   text: string;
@@ -10,8 +26,54 @@ export interface GdeltEvent {
   source: 'gdelt';
   region: string;
   url: string;
-  coordinates: [number, number] | null; // [lng, lat]
+  coordinates: [number, number] | null; // [lng, lat] of the primary location, null if GEO had none
+  locations?: GdeltLocation[]; // Every located mention (primary first)
   tone: number; // sentiment score
+  language?: string; // Article language as GDELT names it, e.g. "French"
+}
+
+// One GEO 2.0 point: a location and the articles that mention it
+interface GdeltGeoPoint {
+  name: string;
+  coordinates: [number, number]; // [lng, lat]
+  count: number; // Mentions in the time span
+  articles: Array<{ url: string; title: string }>;
+}
+
+export interface GdeltFetchProgress {
+  completedWindows: number; // Sub-windows finished (including failed ones)
+  failedWindows: number;
+  totalWindows: number;
+  articles: number; // Unique articles so far
+}
+
+export interface GdeltFetchOptions {
+  windows?: number; // Sub-windows to split the time window into (default: enough for the limit at 250 each)
+  maxWindows?: number; // Upper bound on sub-windows (default 12)
+  concurrency?: number; // Sub-windows fetched at once (default 2)
+  onProgress?: (progress: GdeltFetchProgress) => void; // Called after each sub-window
+}
+
+const GEO_MAX_POINTS = 500;
+const GDELT_MAX_RECORDS = 250;
+const DEFAULT_MAX_WINDOWS = 12;
+const DEFAULT_CONCURRENCY = 2;
+
+// GDELT throttles clients that hit it too often - every request from this process shares one budget
+const MIN_REQUEST_INTERVAL_MS = Number(process.env.GDELT_MIN_INTERVAL_MS) || 2000;
+let nextRequestAt = 0;
+
+/**
+ * Wait for the next free GDELT request slot
+ * Slots are handed out in call order, MIN_REQUEST_INTERVAL_MS apart
+ */
+export async function waitForGdeltSlot(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt);
+  nextRequestAt = slot + MIN_REQUEST_INTERVAL_MS;
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
 }
 
 /**
@@ -38,216 +100,346 @@ function calculateDistance(
 }
 
 /**
- * Fetch GDELT events filtered by country
- * Uses the DOC 2.0 API which returns articles with metadata
- * @param limit - Maximum number of events to return (default: 2000)
- * @param countryName - Optional: Filter by country name (e.g., "United States", "France")
- * @returns Array of GDELT events in Post-like format, filtered by country if provided
+ * Fetch located mentions from the GEO 2.0 API (PointData mode)
+ * Each point's "html" property lists the articles that mention it as links
+ * @param options - Same filters as the DOC search
+ * @returns Points, most-mentioned first (empty if the GEO API is unavailable)
  */
-export async function fetchGdeltEvents(
-  limit = 2000,
-  countryName?: string
-): Promise<GdeltEvent[]> {
-  // GDELT DOC 2.0 API - this is the documented working endpoint
-  // Returns articles with geo-location data
-  // Using mode=ArtList (capital A, capital L) to get article list
-  // timespan must be at least 1d (1 day) - shorter timespans are rejected
-  // IMPORTANT: API has a maximum of 250 records per request
-  // 
-  // STRATEGY: The sourcecountry parameter doesn't work reliably.
-  // Instead, we use the country name in the query to find articles about/from that country.
-  // This approach works better than sourcecountry parameter.
-  const maxRecords = Math.min(limit, 250); // Cap at 250 (API limit)
-  
-  // Build query: include country name in search to find relevant articles
-  let query = 'news';
+async function fetchGdeltGeoPoints(options: GdeltQueryOptions): Promise<GdeltGeoPoint[]> {
+  try {
+    const url = buildGdeltGeoUrl(options, GEO_MAX_POINTS);
+    await waitForGdeltSlot();
+    const res = await fetch(url, { headers: { 'Accept': 'application/json' } });
+    const text = await res.text();
+    if (!res.ok || !text.trim().startsWith('{')) {
+      console.warn(`[GDELT] GEO API returned ${res.status} without GeoJSON - articles will be spread around the region center`);
+      return [];
+    }
+
+    const json = JSON.parse(text) as {
+      features?: Array<{
+        geometry?: { coordinates?: unknown };
+        properties?: { name?: string; count?: number; html?: string };
+      }>;
+    };
+
+    const points: GdeltGeoPoint[] = [];
+    for (const feature of json.features || []) {
+      const coords = feature.geometry?.coordinates;
+      if (!Array.isArray(coords) || coords.length < 2) continue;
+      const [lng, lat] = coords.map(Number);
+      if (isNaN(lng) || isNaN(lat)) continue;
+
+      const html = feature.properties?.html || '';
+      const articles = [...html.matchAll(/<a\s[^>]*href="([^"]+)"[^>]*?(?:title="([^"]*)")?[^>]*>([^<]*)<\/a>/gi)]
+        .map(match => ({ url: match[1], title: match[2] || match[3] || '' }));
+
+      points.push({
+        name: feature.properties?.name || 'Unknown location',
+        coordinates: [lng, lat],
+        count: Number(feature.properties?.count) || articles.length,
+        articles,
+      });
+    }
+
+    console.log(`[GDELT] GEO API returned ${points.length} located points`);
+    return points.sort((a, b) => b.count - a.count);
+  } catch (err) {
+    console.warn('[GDELT] GEO API error:', err instanceof Error ? err.message : String(err));
+    return [];
+  }
+}
+
+/**
+ * Index GEO points by article URL
+ * @param countryName - Locations in this country are listed first for each article
+ * @returns url -> locations the article mentions (primary first)
+ */
+function locationsByUrl(points: GdeltGeoPoint[], countryName?: string): Map<string, GdeltLocation[]> {
+  const byUrl = new Map<string, GdeltLocation[]>();
+  for (const point of points) {
+    for (const article of point.articles) {
+      const locations = byUrl.get(article.url) || [];
+      locations.push({ name: point.name, coordinates: point.coordinates });
+      byUrl.set(article.url, locations);
+    }
+  }
+
   if (countryName) {
-    // Add country name to query to find articles about/from that country
-    query = `news ${countryName}`;
-    console.log(`[GDELT] Using query-based search: "${query}" for country: ${countryName}`);
-  } else {
-    console.log('[GDELT] Fetching global results (no country filter)');
+    // A French article that mentions Washington once should still land in France
+    const inCountry = (location: GdeltLocation) => location.name.toLowerCase().endsWith(countryName.toLowerCase());
+    for (const locations of byUrl.values()) {
+      locations.sort((a, b) => Number(inCountry(b)) - Number(inCountry(a)));
+    }
   }
+  return byUrl;
+}
+
+/**
+ * Fetch one ArtList page
+ * @param url - DOC ArtList URL (see buildGdeltDocUrl)
+ * @returns Events without GEO coordinates (empty if the response has no article list)
+ * @throws Error if the request fails or GDELT answers with an error page instead of JSON
+ */
+async function fetchGdeltArticles(url: string): Promise<GdeltEvent[]> {
+  await waitForGdeltSlot();
+  const res = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
   
-  let url = `https://api.gdeltproject.org/api/v2/doc/doc?query=${encodeURIComponent(query)}&mode=ArtList&maxrecords=${maxRecords}&format=json&timespan=1d`;
+  console.log(`[GDELT] Response status: ${res.status}, Content-Type: ${res.headers.get('content-type')}`);
   
-  console.log(`[GDELT] API URL: ${url.substring(0, 150)}...`); // Log first 150 chars of URL
-
-  try {
-    const res = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    console.log(`[GDELT] Response status: ${res.status}, Content-Type: ${res.headers.get('content-type')}`);
+  // Check if response is actually JSON
+  const contentType = res.headers.get('content-type') || '';
+  const text = await res.text();
+  
+  // GDELT DOC API should return JSON, but sometimes returns HTML for errors
+  // Check if response is HTML (error page)
+  if (!contentType.includes('application/json') || text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
+    // Check if it's an error message in HTML
+    if (text.includes('Your query was too short') || text.includes('Timespan is too short') || text.includes('error')) {
+      throw new Error(`GDELT API error: ${text.substring(0, 200)}`);
+    }
     
-    // Check if response is actually JSON
-    const contentType = res.headers.get('content-type') || '';
-    const text = await res.text();
+    console.warn(`[GDELT] Response preview: ${text.substring(0, 300)}`);
+    // Don't try to parse HTML - the API should return JSON, so HTML means something went wrong
+    throw new Error(`GDELT API returned ${res.status} HTML instead of JSON. This may indicate an invalid query or API issue.`);
+  }
+
+  // If we got JSON, parse it normally
+  const json = JSON.parse(text);
+
+  // GDELT DOC 2.0 API returns articles in different formats
+  // Check for articles array, docs array, or other formats
+  let articlesArray: any[] = [];
+  
+  if (json?.articles && Array.isArray(json.articles)) {
+    // DOC API returns articles array
+    articlesArray = json.articles;
+  } else if (json?.docs && Array.isArray(json.docs)) {
+    // Alternative docs array
+    articlesArray = json.docs;
+  } else if (json?.features && Array.isArray(json.features)) {
+    // GeoJSON format with features
+    articlesArray = json.features.map((feature: any) => ({
+      ...(feature.properties || {}),
+      geometry: feature.geometry || {},
+    }));
+  } else if (json?.events && Array.isArray(json.events)) {
+    // Regular events array
+    articlesArray = json.events;
+  } else if (Array.isArray(json)) {
+    // Direct array of articles
+    articlesArray = json;
+  } else {
+    console.warn('[GDELT] Response does not contain articles array. Response structure:', Object.keys(json));
+    return [];
+  }
+
+  console.log(`[GDELT] Found ${articlesArray.length} articles in response`);
+
+  // Map all articles to events
+  return articlesArray.map((article: any) => {
+    // DOC API format: articles have title, snippet, url, date, etc.
+    // Some articles may have location data
+    const geom = article.geometry || {};
     
-    // GDELT DOC API should return JSON, but sometimes returns HTML for errors
-    // Check if response is HTML (error page)
-    if (!contentType.includes('application/json') || text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
-      // Check if it's an error message in HTML
-      if (text.includes('Your query was too short') || text.includes('Timespan is too short') || text.includes('error')) {
-        console.error(`[GDELT] API error: ${text.substring(0, 200)}`);
-        return [];
+    // Extract coordinates - DOC API may have location data
+    let coordinates: [number, number] | null = null;
+    if (geom.coordinates && Array.isArray(geom.coordinates) && geom.coordinates.length >= 2) {
+      coordinates = [geom.coordinates[0], geom.coordinates[1]]; // [lon, lat]
+    } else if (article.longitude && article.latitude) {
+      coordinates = [Number(article.longitude), Number(article.latitude)];
+    } else if (article.lng && article.lat) {
+      coordinates = [Number(article.lng), Number(article.lat)];
+    } else if (article.location) {
+      // Location object with lat/lng
+      if (article.location.lat && article.location.lng) {
+        coordinates = [Number(article.location.lng), Number(article.location.lat)];
       }
-      
-      console.warn('[GDELT] API returned HTML instead of JSON. This may indicate an invalid query or API issue.');
-      console.warn(`[GDELT] Response preview: ${text.substring(0, 300)}`);
-      
-      // Don't try to parse HTML - return empty array
-      // The API should return JSON, so HTML means something went wrong
-      return [];
     }
 
-    // If we got JSON, parse it normally
-    const json = JSON.parse(text);
+    // Extract date - DOC API uses seendate in format "20251128T021500Z"
+    let dateMs = Date.now();
+    if (article.seendate) {
+      // Parse GDELT date format: "20251128T021500Z" -> "2025-11-28T02:15:00Z"
+      const dateStr = article.seendate;
+      if (dateStr.length >= 15) {
+        const formatted = `${dateStr.substring(0,4)}-${dateStr.substring(4,6)}-${dateStr.substring(6,8)}T${dateStr.substring(9,11)}:${dateStr.substring(11,13)}:${dateStr.substring(13,15)}Z`;
+        dateMs = new Date(formatted).getTime();
+      }
+    } else if (article.date) {
+      dateMs = new Date(article.date).getTime();
+    } else if (article.datetime) {
+      dateMs = new Date(article.datetime).getTime();
+    } else if (article.publishedAt) {
+      dateMs = new Date(article.publishedAt).getTime();
+    }
 
-    // GDELT DOC 2.0 API returns articles in different formats
-    // Check for articles array, docs array, or other formats
-    let articlesArray: any[] = [];
-    
-    if (json?.articles && Array.isArray(json.articles)) {
-      // DOC API returns articles array
-      articlesArray = json.articles;
-    } else if (json?.docs && Array.isArray(json.docs)) {
-      // Alternative docs array
-      articlesArray = json.docs;
-    } else if (json?.features && Array.isArray(json.features)) {
-      // GeoJSON format with features
-      articlesArray = json.features.map((feature: any) => ({
-        ...(feature.properties || {}),
-        geometry: feature.geometry || {},
-      }));
-    } else if (json?.events && Array.isArray(json.events)) {
-      // Regular events array
-      articlesArray = json.events;
-    } else if (Array.isArray(json)) {
-      // Direct array of articles
-      articlesArray = json;
-    } else {
-      console.warn('[GDELT] Response does not contain articles array. Response structure:', Object.keys(json));
-      return [];
+    return {
+      text: article.title || article.snippet || article.url || "No title available",
+      createdAt: dateMs,
+      source: "gdelt" as const,
+      region: article.sourcecountry || article.country_name || article.countrycode || article.location?.country || "unknown",
+      url: article.url || article.url_mobile || article.shareurl || article.sourceurl || null,
+      tone: article.tone || article.avgtone || null,   // GDELT sentiment score
+      language: article.language || article.sourcelang || undefined,
+      coordinates: coordinates, // DOC API doesn't include coordinates - filled from GEO point data below
+    } as GdeltEvent;
+  });
+}
+
+/**
+ * Dedupe key for an article: its URL without protocol, "www.", fragment or trailing slash
+ * (the same story is often syndicated under slightly different URLs)
+ */
+function articleKey(event: GdeltEvent): string {
+  if (!event.url) {
+    return `text:${event.text.toLowerCase()}`;
+  }
+  return event.url
+    .replace(/^https?:\/\//i, '')
+    .replace(/^www\./i, '')
+    .replace(/#.*$/, '')
+    .replace(/\/+$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Merge per-window results, taking one article from each window in turn
+ * so a busy stretch of the time window doesn't crowd out the rest
+ * @returns Up to `limit` unique articles
+ */
+function interleaveUnique(perWindow: GdeltEvent[][], limit: number): GdeltEvent[] {
+  const seen = new Set<string>();
+  const merged: GdeltEvent[] = [];
+  const longest = Math.max(0, ...perWindow.map(events => events.length));
+
+  for (let i = 0; i < longest && merged.length < limit; i++) {
+    for (const events of perWindow) {
+      const event = events[i];
+      if (!event) continue;
+      const key = articleKey(event);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(event);
+      if (merged.length >= limit) break;
     }
+  }
+  return merged;
+}
 
-    console.log(`[GDELT] Found ${articlesArray.length} articles in response`);
-
-    // Map all articles to events
-    const allEvents = articlesArray.map((article: any) => {
-      // DOC API format: articles have title, snippet, url, date, etc.
-      // Some articles may have location data
-      const geom = article.geometry || {};
-      
-      // Extract coordinates - DOC API may have location data
-      let coordinates: [number, number] | null = null;
-      if (geom.coordinates && Array.isArray(geom.coordinates) && geom.coordinates.length >= 2) {
-        coordinates = [geom.coordinates[0], geom.coordinates[1]]; // [lon, lat]
-      } else if (article.longitude && article.latitude) {
-        coordinates = [Number(article.longitude), Number(article.latitude)];
-      } else if (article.lng && article.lat) {
-        coordinates = [Number(article.lng), Number(article.lat)];
-      } else if (article.location) {
-        // Location object with lat/lng
-        if (article.location.lat && article.location.lng) {
-          coordinates = [Number(article.location.lng), Number(article.location.lat)];
-        }
-      }
+/**
+ * Fetch GDELT events filtered by country
+ * Uses the DOC 2.0 API which returns articles with metadata
+ * Results are scoped by GDELT operators at the API level - if nothing matches, the result is
+ * empty rather than widened to global news
+ *
+ * ArtList returns at most 250 articles per request, so larger limits split the time window
+ * into sub-windows (newest first), fetch them a few at a time within the shared GDELT rate
+ * budget, dedupe by URL, and balance the result across the whole window.
+ * @param limit - Maximum number of events to return
+ * @param countryName - Optional: only articles from outlets in this country (e.g., "United States", "France")
+ * @param filters - Optional keywords, language, theme, domain, tone, proximity and time window filters
+ * @param options - Sub-window count, concurrency and a progress callback
+ * @returns Array of GDELT events in Post-like format, newest first when the window was split
+ * @throws Error if the filters are invalid (e.g. a malformed timespan) or every request failed
+ */
+export async function fetchGdeltEvents(
+  limit = 2000,
+  countryName?: string,
+  filters: GdeltQueryOptions = {},
+  options: GdeltFetchOptions = {}
+): Promise<GdeltEvent[]> {
+  const queryOptions: GdeltQueryOptions = {
+    ...filters,
+    sourceCountry: filters.sourceCountry ?? countryName,
+  };
+  if (!buildGdeltQuery(queryOptions)) {
+    // Nothing to filter on - DOC needs a non-empty query
+    queryOptions.keywords = 'news';
+  }
 
-      // Extract date - DOC API uses seendate in format "20251128T021500Z"
-      let dateMs = Date.now();
-      if (article.seendate) {
-        // Parse GDELT date format: "20251128T021500Z" -> "2025-11-28T02:15:00Z"
-        const dateStr = article.seendate;
-        if (dateStr.length >= 15) {
-          const formatted = `${dateStr.substring(0,4)}-${dateStr.substring(4,6)}-${dateStr.substring(6,8)}T${dateStr.substring(9,11)}:${dateStr.substring(11,13)}:${dateStr.substring(13,15)}Z`;
-          dateMs = new Date(formatted).getTime();
-        }
-      } else if (article.date) {
-        dateMs = new Date(article.date).getTime();
-      } else if (article.datetime) {
-        dateMs = new Date(article.datetime).getTime();
-      } else if (article.publishedAt) {
-        dateMs = new Date(article.publishedAt).getTime();
-      }
+  // GDELT DOC 2.0 API - mode=ArtList returns an article list
+  // IMPORTANT: API has a maximum of 250 records per request
+  const windowCount = Math.min(
+    options.windows ?? Math.ceil(limit / GDELT_MAX_RECORDS),
+    options.maxWindows ?? DEFAULT_MAX_WINDOWS
+  );
+  const windows = windowCount > 1 ? sliceGdeltWindow(queryOptions, windowCount) : [queryOptions];
+  // Split windows ask for a full page each - thin windows leave room for busy ones
+  const maxRecords = windows.length > 1 ? GDELT_MAX_RECORDS : Math.min(limit, GDELT_MAX_RECORDS);
+  const urls = windows.map(window => buildGdeltDocUrl(window, 'ArtList', maxRecords));
 
-      return {
-        text: article.title || article.snippet || article.url || "No title available",
-        createdAt: dateMs,
-        source: "gdelt" as const,
-        region: article.sourcecountry || article.country_name || article.countrycode || article.location?.country || "unknown",
-        url: article.url || article.url_mobile || article.shareurl || article.sourceurl || null,
-        tone: article.tone || article.avgtone || null,   // GDELT sentiment score
-        coordinates: coordinates, // DOC API doesn't include coordinates - will be null and spread around region center
-      };
-    });
-
-    // Since we're using query-based search (query=news {countryName}), the API should return
-    // articles that mention the country. We can optionally filter further by sourcecountry
-    // field, but the query-based approach is more reliable.
-    let filteredEvents = allEvents;
-    
-    if (countryName) {
-      const beforeCount = filteredEvents.length;
-      const requestedCountry = countryName.toLowerCase();
-      
-      // Filter by sourcecountry field to prioritize articles FROM the country
-      // But also keep articles ABOUT the country (which may be from other countries)
-      filteredEvents = allEvents.filter((event) => {
-        const eventCountry = event.region?.toLowerCase() || '';
-        const eventText = event.text?.toLowerCase() || '';
-        
-        // Priority 1: Exact country match in sourcecountry
-        if (eventCountry === requestedCountry) {
-          return true;
-        }
-        
-        // Priority 2: Country name appears in article text (article is ABOUT the country)
-        // This catches articles that mention the country even if from different source
-        const countryInText = eventText.includes(requestedCountry) || 
-                             eventText.includes(requestedCountry.split(' ')[0]); // e.g., "netherlands" or "united"
-        
-        // Country variations for matching
-        const countryVariations: Record<string, string[]> = {
-          'united states': ['united states', 'usa', 'us', 'america'],
-          'netherlands': ['netherlands', 'holland', 'dutch', 'nederland'],
-          'united kingdom': ['united kingdom', 'uk', 'britain', 'england'],
-        };
-        
-        const variations = countryVariations[requestedCountry] || [requestedCountry];
-        const matchesVariation = variations.some(v => 
-          eventCountry.includes(v) || 
-          v.includes(eventCountry) ||
-          eventText.includes(v)
-        );
-        
-        return countryInText || matchesVariation;
-      });
-      
-      console.log(
-        `[GDELT] Filtered ${filteredEvents.length} events (from ${beforeCount} total) for country: ${countryName}`
-      );
-      
-      // If we have very few results, return all (better than nothing)
-      if (filteredEvents.length < limit / 2 && allEvents.length > 0) {
-        console.log(
-          `[GDELT] Few filtered results (${filteredEvents.length}), returning all ${allEvents.length} events from query`
-        );
-        filteredEvents = allEvents;
+  console.log(`[GDELT] Query: ${buildGdeltQuery(queryOptions)}${countryName ? ` (country: ${countryName})` : ' (global)'}`);
+  if (urls.length > 1) {
+    console.log(`[GDELT] Splitting the time window into ${urls.length} sub-windows for up to ${limit} articles`);
+  } else {
+    console.log(`[GDELT] API URL: ${urls[0].substring(0, 150)}...`); // Log first 150 chars of URL
+  }
+
+  const perWindow: GdeltEvent[][] = urls.map(() => []);
+  const seen = new Set<string>();
+  let nextWindow = 0;
+  let completed = 0;
+  let failed = 0;
+  let lastError: unknown = null;
+
+  const worker = async () => {
+    while (nextWindow < urls.length) {
+      const index = nextWindow++;
+      try {
+        perWindow[index] = await fetchGdeltArticles(urls[index]);
+      } catch (err) {
+        failed++;
+        lastError = err;
+        console.error(`[GDELT] Window ${index + 1}/${urls.length} failed:`, err instanceof Error ? err.message : String(err));
       }
-    } else {
-      console.log(
-        `[GDELT] Retrieved ${allEvents.length} events (global, no country filter)`
-      );
+      completed++;
+      perWindow[index].forEach(event => seen.add(articleKey(event)));
+      options.onProgress?.({
+        completedWindows: completed,
+        failedWindows: failed,
+        totalWindows: urls.length,
+        articles: seen.size,
+      });
     }
+  };
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, urls.length));
+  const windowsDone = Promise.all(Array.from({ length: concurrency }, worker));
 
-    // Return up to limit events
-    return filteredEvents.slice(0, limit);
-  } catch (err) {
-    console.error("GDELT error:", err);
-    return [];
+  // Located mentions for the same query, fetched alongside the article list
+  // (started after the first article requests so they get the first rate slots)
+  const geoPointsPromise = fetchGdeltGeoPoints(queryOptions);
+  await windowsDone;
+
+  if (failed === urls.length) {
+    await geoPointsPromise;
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
   }
-}
 
+  const allEvents = interleaveUnique(perWindow, limit);
+  if (urls.length > 1) {
+    allEvents.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Attach real coordinates from GEO point data (articles GEO didn't locate stay null
+  // and are spread around the region center)
+  const byUrl = locationsByUrl(await geoPointsPromise, countryName);
+  let located = 0;
+  for (const event of allEvents) {
+    const locations = event.url ? byUrl.get(event.url) : undefined;
+    if (!locations?.length) continue;
+    event.locations = locations;
+    if (!event.coordinates) {
+      event.coordinates = locations[0].coordinates;
+    }
+    located++;
+  }
+  console.log(`[GDELT] Located ${located} of ${allEvents.length} articles via GEO point data`);
+
+  console.log(`[GDELT] Retrieved ${allEvents.length} events${urls.length > 1 ? ` from ${urls.length - failed}/${urls.length} sub-windows` : ''}`);
+  return allEvents;
+}
@@ -0,0 +1,239 @@
+// =====================
+// GDELT QUERY BUILDER
+// =====================
+// Builds DOC 2.0 / GEO 2.0 queries from typed filters instead of hand-written strings.
+// Operators: https://blog.gdeltproject.org/gdelt-doc-2-0-api-debuts/
+// - sourcecountry:france   articles published by outlets in a country
+// - sourcelang:french      articles published in a language
+// - theme:TERROR           GKG theme
+// - domain:bbc.co.uk       articles from a site
+// - tone<-5 / tone>5       article tone
+// - near20:"flood rescue"  words within N words of each other
+// Several values of one filter are ORed: (sourcecountry:france OR sourcecountry:belgium)
+
+export interface GdeltNear {
+  distance: number; // Maximum words between the terms
+  words: string[];
+}
+
+export interface GdeltQueryOptions {
+  keywords?: string | string[]; // Free-text terms (any may match); multi-word terms become phrases
+  sourceCountry?: string | string[]; // Country names ("United States") or FIPS codes ("US")
+  sourceLang?: string | string[]; // Language names ("french") or ISO 639 codes ("fra")
+  themes?: string[]; // GKG themes, e.g. "NATURAL_DISASTER"
+  domains?: string[];
+  toneBelow?: number; // Only articles with tone below this
+  toneAbove?: number; // Only articles with tone above this
+  near?: GdeltNear;
+  // Time window: either a relative timespan or absolute start/end (within the last 3 months)
+  timespan?: string; // e.g. "15min", "6h", "1d", "1w", "3m"
+  startDateTime?: Date;
+  endDateTime?: Date;
+}
+
+export type GdeltDocMode = 'ArtList' | 'TimelineVol' | 'TimelineVolRaw' | 'TimelineTone' | 'TimelineLang' | 'TimelineSourceCountry';
+
+const DOC_API_URL = 'https://api.gdeltproject.org/api/v2/doc/doc';
+const GEO_API_URL = 'https://api.gdeltproject.org/api/v2/geo/geo';
+const DEFAULT_TIMESPAN = '1d';
+// The GEO API only looks back a week
+const GEO_MAX_TIMESPAN_MINUTES = 7 * 24 * 60;
+// DOC indexes articles in 15-minute batches - narrower windows don't split anything
+const MIN_SLICE_MS = 15 * 60 * 1000;
+
+const TIMESPAN_PATTERN = /^(\d+)(min|h|hours|d|days|w|weeks|m|months)$/i;
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Quote a term if it contains spaces ("new york" -> "\"new york\"")
+ */
+function term(value: string): string {
+  const cleaned = value.replace(/"/g, '');
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * OR several operator clauses together; a single clause needs no parentheses
+ */
+function anyOf(clauses: string[]): string | null {
+  if (clauses.length === 0) return null;
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(' OR ')})`;
+}
+
+/**
+ * GDELT wants country names without spaces ("unitedarabemirates"); FIPS codes pass through
+ */
+function countryOperand(country: string): string {
+  return country.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * GDELT datetime format: YYYYMMDDHHMMSS (UTC)
+ */
+export function formatGdeltDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/**
+ * Parse a GDELT response date ("20251128T021500Z" or "20251128021500") to a Date
+ * Falls back to Date parsing for ISO strings
+ * @returns null if the value isn't a recognizable date
+ */
+export function parseGdeltDateTime(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})T?(\d{2})(\d{2})(\d{2})Z?$/);
+  const date = match
+    ? new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`)
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Check a timespan like "1d" or "15min"
+ * @throws Error if the format isn't <number><unit>
+ */
+export function validateTimespan(timespan: string): string {
+  if (!TIMESPAN_PATTERN.test(timespan.trim())) {
+    throw new Error(`Invalid GDELT timespan "${timespan}" (use e.g. 15min, 6h, 1d, 1w, 3m)`);
+  }
+  return timespan.trim();
+}
+
+/**
+ * Build the query string (the "query" URL parameter)
+ * @throws Error if the filters are contradictory (e.g. toneAbove >= toneBelow)
+ * @returns The query, or "" if no filter was given
+ */
+export function buildGdeltQuery(options: GdeltQueryOptions): string {
+  const { toneBelow, toneAbove, near } = options;
+  if (toneBelow !== undefined && toneAbove !== undefined && toneAbove >= toneBelow) {
+    throw new Error(`toneAbove (${toneAbove}) must be less than toneBelow (${toneBelow})`);
+  }
+
+  const clauses = [
+    anyOf(toList(options.keywords).map(term)),
+    anyOf(toList(options.sourceCountry).map(country => `sourcecountry:${countryOperand(country)}`)),
+    anyOf(toList(options.sourceLang).map(lang => `sourcelang:${lang.toLowerCase().replace(/[^a-z]/g, '')}`)),
+    anyOf(toList(options.themes).map(theme => `theme:${theme.toUpperCase()}`)),
+    anyOf(toList(options.domains).map(domain => `domain:${domain.toLowerCase()}`)),
+    toneBelow !== undefined ? `tone<${toneBelow}` : null,
+    toneAbove !== undefined ? `tone>${toneAbove}` : null,
+    near && near.words.length >= 2
+      ? `near${Math.max(1, Math.round(near.distance))}:"${near.words.map(word => word.replace(/"/g, '')).join(' ')}"`
+      : null,
+  ];
+
+  return clauses.filter((clause): clause is string => clause !== null).join(' ');
+}
+
+/**
+ * Build a DOC 2.0 API URL
+ * Uses start/end datetimes when given, otherwise the timespan (default 1d)
+ * @param options - Query filters and time window
+ * @param mode - ArtList or one of the Timeline modes
+ * @param maxRecords - ArtList page size (max 250)
+ * @throws Error if the query is empty or the time window is invalid
+ */
+export function buildGdeltDocUrl(options: GdeltQueryOptions, mode: GdeltDocMode = 'ArtList', maxRecords: number = 250): string {
+  const query = buildGdeltQuery(options);
+  if (!query) {
+    throw new Error('GDELT query needs at least one keyword or filter');
+  }
+
+  const params = new URLSearchParams({ query, mode, format: 'json' });
+  if (mode === 'ArtList') {
+    params.set('maxrecords', String(Math.min(Math.max(1, maxRecords), 250)));
+  }
+
+  const { startDateTime, endDateTime } = options;
+  if (startDateTime || endDateTime) {
+    if (startDateTime && endDateTime && startDateTime >= endDateTime) {
+      throw new Error('startDateTime must be before endDateTime');
+    }
+    if (startDateTime) params.set('startdatetime', formatGdeltDateTime(startDateTime));
+    if (endDateTime) params.set('enddatetime', formatGdeltDateTime(endDateTime));
+  } else {
+    params.set('timespan', validateTimespan(options.timespan || DEFAULT_TIMESPAN));
+  }
+
+  return `${DOC_API_URL}?${params.toString()}`;
+}
+
+/**
+ * Timespan in minutes (GEO API units)
+ */
+function timespanMinutes(timespan: string): number {
+  const match = validateTimespan(timespan).match(TIMESPAN_PATTERN) as RegExpMatchArray;
+  const value = Number(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit === 'min') return value;
+  if (unit.startsWith('h')) return value * 60;
+  if (unit.startsWith('d')) return value * 24 * 60;
+  if (unit.startsWith('w')) return value * 7 * 24 * 60;
+  return value * 30 * 24 * 60;
+}
+
+/**
+ * Absolute start and end of the query's time window
+ * A relative timespan (default 1d) counts back from the end, or from now
+ */
+export function resolveGdeltWindow(options: GdeltQueryOptions, now: Date = new Date()): { start: Date; end: Date } {
+  const end = options.endDateTime ?? now;
+  const start = options.startDateTime
+    ?? new Date(end.getTime() - timespanMinutes(options.timespan || DEFAULT_TIMESPAN) * 60000);
+  if (start >= end) {
+    throw new Error('startDateTime must be before endDateTime');
+  }
+  return { start, end };
+}
+
+/**
+ * Split the query's time window into consecutive sub-windows, newest first
+ * Each copy of the options gets absolute start/end datetimes; windows are never shorter
+ * than GDELT's 15-minute resolution, so short spans yield fewer than `count`
+ * @param count - Number of sub-windows wanted
+ */
+export function sliceGdeltWindow(options: GdeltQueryOptions, count: number, now: Date = new Date()): GdeltQueryOptions[] {
+  const { start, end } = resolveGdeltWindow(options, now);
+  const spanMs = end.getTime() - start.getTime();
+  const slices = Math.max(1, Math.min(Math.floor(count), Math.floor(spanMs / MIN_SLICE_MS) || 1));
+  const sliceMs = spanMs / slices;
+
+  const windows: GdeltQueryOptions[] = [];
+  for (let i = 0; i < slices; i++) {
+    const sliceEnd = new Date(end.getTime() - i * sliceMs);
+    const sliceStart = i === slices - 1 ? start : new Date(end.getTime() - (i + 1) * sliceMs);
+    windows.push({ ...options, timespan: undefined, startDateTime: sliceStart, endDateTime: sliceEnd });
+  }
+  return windows;
+}
+
+/**
+ * Build a GEO 2.0 PointData URL for the same filters
+ * The GEO API has no absolute datetimes - the window is "the last N minutes" (max 7 days)
+ * @throws Error if the query is empty
+ */
+export function buildGdeltGeoUrl(options: GdeltQueryOptions, maxPoints: number = 500): string {
+  const query = buildGdeltQuery(options);
+  if (!query) {
+    throw new Error('GDELT query needs at least one keyword or filter');
+  }
+
+  const minutes = options.startDateTime
+    ? Math.ceil((Date.now() - options.startDateTime.getTime()) / 60000)
+    : timespanMinutes(options.timespan || DEFAULT_TIMESPAN);
+
+  const params = new URLSearchParams({
+    query,
+    mode: 'PointData',
+    format: 'GeoJSON',
+    timespan: String(Math.min(Math.max(15, minutes), GEO_MAX_TIMESPAN_MINUTES)),
+    maxpoints: String(maxPoints),
+  });
+  return `${GEO_API_URL}?${params.toString()}`;
+}
@@ -0,0 +1,68 @@
+// =====================
+// GDELT SOURCE
+// =====================
+// Geo-coded news articles from the GDELT DOC 2.0 API.
+// GDELT only filters by source country, so cities are mapped to their country first.
+//
+// Optional environment variable:
+// - GDELT_MAX_ARTICLES (articles per request when the caller doesn't choose, default 100 -
+//   above 250 the time window is split into sub-windows, see fetchGdeltEvents)
+
+import { fetchGdeltEvents, type GdeltEvent } from './gdeltClient';
+import { getCountryNameForGdelt } from './countryMap';
+import { languageName, normalizeLanguage } from './languagePolicy';
+import { withinWindow, type SourceAdapter, type SourceQuery } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+const DEFAULT_LIMIT = Number(process.env.GDELT_MAX_ARTICLES) || 100;
+
+async function fetchGdelt(query: SourceQuery): Promise<GdeltEvent[]> {
+  const countryName = query.region ? getCountryNameForGdelt(query.region) : undefined;
+  if (query.region && !countryName) {
+    console.warn(`[Fetch] Could not map region "${query.region}" to a country. Skipping GDELT fetch.`);
+    return [];
+  }
+
+  console.log(`Fetching GDELT events${countryName ? ` for country: ${countryName}` : ' (global)'}...`);
+  const events = await fetchGdeltEvents(query.limit, countryName, {
+    startDateTime: query.since,
+    endDateTime: query.until,
+    sourceLang: query.languages?.map(languageName),
+  }, {
+    onProgress: ({ completedWindows, failedWindows, totalWindows, articles }) => {
+      if (totalWindows > 1) {
+        console.log(`[GDELT] Sub-window ${completedWindows}/${totalWindows} done (${articles} unique articles${failedWindows ? `, ${failedWindows} failed` : ''})`);
+      }
+    },
+  });
+  // Already filtered by country and time at the API level - the window check only trims
+  // articles GDELT dated at the edges
+  return events.filter(event => withinWindow(event.createdAt, query));
+}
+
+function normalizeGdeltEvents(events: GdeltEvent[]): UnifiedPost[] {
+  return events.map((post, index) => ({
+    text: post.text,
+    createdAt: new Date(post.createdAt).toISOString(),
+    source: 'gdelt',
+    uri: post.url || `gdelt-${index}`,
+    cid: `gdelt-${index}`,
+    lat: post.coordinates ? post.coordinates[1] : null, // lat is second in [lng, lat]
+    lon: post.coordinates ? post.coordinates[0] : null, // lng is first
+    region: post.region,
+    tone: post.tone,
+    language: normalizeLanguage(post.language),
+  }));
+}
+
+export const gdeltSource: SourceAdapter<GdeltEvent> = {
+  id: 'gdelt',
+  label: 'GDELT',
+  kind: 'news',
+  enabledByDefault: true,
+  defaultLimit: DEFAULT_LIMIT,
+  supportsTimeWindow: true,
+  isConfigured: () => true, // Public API, no key
+  fetch: fetchGdelt,
+  normalize: normalizeGdeltEvents,
+};
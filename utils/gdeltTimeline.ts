@@ -0,0 +1,173 @@
+// =====================
+// GDELT TIMELINES
+// =====================
+// Time series from the DOC 2.0 API's timeline modes:
+// - TimelineTone           average tone of matching coverage per time step
+// - TimelineVol            matching coverage as a % of all monitored coverage
+// - TimelineSourceCountry  the same volume, split by the country of the outlet
+//
+// Responses look like { timeline: [{ series: "Average Tone", data: [{ date, value }] }] },
+// but like ArtList the API sometimes answers with HTML error pages or other shapes,
+// so parsing never assumes more than it has checked.
+
+import { waitForGdeltSlot } from './gdeltClient';
+import { buildGdeltDocUrl, buildGdeltQuery, parseGdeltDateTime, type GdeltDocMode, type GdeltQueryOptions } from './gdeltQuery';
+
+export type GdeltTimelineMode = Extract<GdeltDocMode, 'TimelineTone' | 'TimelineVol' | 'TimelineSourceCountry'>;
+
+export interface GdeltTimelinePoint {
+  date: string; // ISO timestamp of the time step
+  value: number;
+}
+
+export interface GdeltTimelineSeries {
+  name: string; // "Average Tone", "Volume Intensity" or an outlet country
+  points: GdeltTimelinePoint[]; // Oldest first
+}
+
+export interface GdeltTimeline {
+  mode: GdeltTimelineMode;
+  query: string;
+  series: GdeltTimelineSeries[];
+}
+
+export interface GdeltTimelineOptions {
+  smooth?: number; // Moving-average window in time steps (0-30, GDELT's timelinesmooth)
+  maxSeries?: number; // TimelineSourceCountry: keep the N countries with the most coverage (default 8)
+}
+
+const DEFAULT_TIMELINE_TIMESPAN = '1w';
+const DEFAULT_MAX_SERIES = 8;
+
+/**
+ * Read one data point, accepting the field names GDELT has used across modes
+ */
+function parsePoint(raw: unknown): GdeltTimelinePoint | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const point = raw as Record<string, unknown>;
+
+  const date = parseGdeltDateTime(point.date ?? point.datetime ?? point.time);
+  const rawValue = point.value ?? point.count ?? point.tone;
+  const value = typeof rawValue === 'number' ? rawValue : Number(rawValue);
+  if (!date || rawValue === null || rawValue === undefined || rawValue === '' || !Number.isFinite(value)) {
+    return null;
+  }
+  return { date: date.toISOString(), value };
+}
+
+/**
+ * Pull the series out of a timeline response
+ * Unknown shapes and malformed points are skipped rather than thrown on
+ * @returns Series with at least one point, points sorted oldest first
+ */
+export function parseGdeltTimeline(json: unknown): GdeltTimelineSeries[] {
+  let seriesArray: unknown[] = [];
+  const body = json && typeof json === 'object' ? json as Record<string, unknown> : null;
+
+  if (body && Array.isArray(body.timeline)) {
+    // DOC API timeline modes
+    seriesArray = body.timeline;
+  } else if (body && Array.isArray(body.series)) {
+    seriesArray = body.series;
+  } else if (body && Array.isArray(body.data)) {
+    // A single series without the wrapper
+    seriesArray = [body];
+  } else if (Array.isArray(json)) {
+    seriesArray = json;
+  } else if (body && Object.keys(body).length === 0) {
+    // GDELT answers {} when nothing matched
+    return [];
+  } else {
+    console.warn('[GDELT] Timeline response does not contain a timeline array. Response structure:', body ? Object.keys(body) : typeof json);
+    return [];
+  }
+
+  const series: GdeltTimelineSeries[] = [];
+  seriesArray.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') return;
+    const entry = raw as Record<string, unknown>;
+    const data = Array.isArray(entry.data) ? entry.data : [];
+    const points = data
+      .map(parsePoint)
+      .filter((point): point is GdeltTimelinePoint => point !== null)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (points.length === 0) return;
+
+    const name = typeof entry.series === 'string' && entry.series.trim()
+      ? entry.series.trim()
+      : typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : `Series ${index + 1}`;
+    series.push({ name, points });
+  });
+  return series;
+}
+
+/**
+ * Fetch a timeline for a country's coverage
+ * Tone and volume cover articles published in the country (sourcecountry); the source
+ * country breakdown covers articles about the country, split by where they were published
+ * @param mode - TimelineTone, TimelineVol or TimelineSourceCountry
+ * @param countryName - Optional country (e.g. "France"); global coverage if omitted
+ * @param filters - Extra filters and the time window (default: the last week)
+ * @param options - Smoothing and how many source countries to keep
+ * @throws Error if the filters are invalid or GDELT answers with an error instead of JSON
+ */
+export async function fetchGdeltTimeline(
+  mode: GdeltTimelineMode,
+  countryName?: string,
+  filters: GdeltQueryOptions = {},
+  options: GdeltTimelineOptions = {}
+): Promise<GdeltTimeline> {
+  const queryOptions: GdeltQueryOptions = { timespan: DEFAULT_TIMELINE_TIMESPAN, ...filters };
+  if (countryName) {
+    if (mode === 'TimelineSourceCountry') {
+      // Filtering by outlet country would leave a single series
+      queryOptions.keywords = filters.keywords ?? countryName;
+    } else {
+      queryOptions.sourceCountry = filters.sourceCountry ?? countryName;
+    }
+  }
+  if (!buildGdeltQuery(queryOptions)) {
+    // Nothing to filter on - DOC needs a non-empty query
+    queryOptions.keywords = 'news';
+  }
+
+  const query = buildGdeltQuery(queryOptions);
+  const url = new URL(buildGdeltDocUrl(queryOptions, mode));
+  if (options.smooth !== undefined) {
+    url.searchParams.set('timelinesmooth', String(Math.min(Math.max(0, Math.round(options.smooth)), 30)));
+  }
+  console.log(`[GDELT] ${mode} query: ${query}${countryName ? ` (country: ${countryName})` : ' (global)'}`);
+
+  await waitForGdeltSlot();
+  const res = await fetch(url.toString(), { headers: { 'Accept': 'application/json' } });
+  const contentType = res.headers.get('content-type') || '';
+  const text = await res.text();
+  const trimmed = text.trim();
+
+  // Errors ("Timespan is too short", rate limiting...) come back as HTML or plain text
+  if (!res.ok || (!contentType.includes('application/json') && !trimmed.startsWith('{') && !trimmed.startsWith('['))) {
+    const preview = trimmed.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().substring(0, 200);
+    throw new Error(`GDELT ${mode} returned ${res.status}${preview ? `: ${preview}` : ' without data'}`);
+  }
+
+  let json: unknown;
+  try {
+    // An empty body means no matching coverage
+    json = trimmed ? JSON.parse(trimmed) : {};
+  } catch {
+    throw new Error(`GDELT ${mode} returned invalid JSON`);
+  }
+
+  let series = parseGdeltTimeline(json);
+  if (mode === 'TimelineSourceCountry') {
+    // Dozens of countries come back - keep the ones with the most coverage
+    const total = (entry: GdeltTimelineSeries) => entry.points.reduce((sum, point) => sum + point.value, 0);
+    series = series
+      .map(entry => ({ ...entry, name: entry.name.replace(/\s+Volume Intensity$/i, '') }))
+      .sort((a, b) => total(b) - total(a))
+      .slice(0, Math.max(1, options.maxSeries ?? DEFAULT_MAX_SERIES));
+  }
+
+  console.log(`[GDELT] ${mode}: ${series.length} series, ${series.reduce((sum, entry) => sum + entry.points.length, 0)} points`);
+  return { mode, query, series };
+}
@@ -1,37 +1,83 @@
 // =====================
 // GEOCODE REGION
 // =====================
-// Geocodes a region name to get its geographic center coordinates
+// Geocodes a region name to get its geographic center (and bounding box, when Mapbox has one)
+
+// [minLon, minLat, maxLon, maxLat], as in GeoJSON and Mapbox
+export type BoundingBox = [number, number, number, number];
+
+export interface RegionLocation {
+  center: { lat: number; lng: number };
+  bbox: BoundingBox | null; // Countries and regions have one; points of interest don't
+}
 
 /**
- * Geocode a region name to get its geographic center
+ * Geocode a region name to its center and bounding box
  * @param region - Region name (e.g., "New York", "United States", "Paris")
- * @returns Region center coordinates with lat and lng
+ * @throws Error if the Mapbox token is missing, the request fails or nothing matches
  */
-export async function geocodeRegion(region: string): Promise<{ lat: number; lng: number }> {
+export async function geocodeRegionBounds(region: string): Promise<RegionLocation> {
   const mapboxToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN;
-  
+
   if (!mapboxToken) {
     throw new Error('NEXT_PUBLIC_MAPBOX_TOKEN is not configured');
   }
 
   const geocodeUrl = `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(region)}.json?access_token=${mapboxToken}`;
-  
+
   const geocodeResponse = await fetch(geocodeUrl);
-  
+
   if (!geocodeResponse.ok) {
     throw new Error('Failed to geocode region');
   }
 
   const geocodeData = await geocodeResponse.json();
-  
+
   if (!geocodeData.features || geocodeData.features.length === 0) {
     throw new Error(`Region "${region}" not found`);
   }
 
   // Extract coordinates from Mapbox response
   // Mapbox returns [longitude, latitude]
-  const [longitude, latitude] = geocodeData.features[0].center;
-  return { lat: latitude, lng: longitude };
+  const feature = geocodeData.features[0];
+  const [longitude, latitude] = feature.center;
+  const bbox = Array.isArray(feature.bbox) && feature.bbox.length === 4 ? feature.bbox as BoundingBox : null;
+  return { center: { lat: latitude, lng: longitude }, bbox };
 }
 
+/**
+ * Geocode a region name to get its geographic center
+ * @param region - Region name (e.g., "New York", "United States", "Paris")
+ * @returns Region center coordinates with lat and lng
+ */
+export async function geocodeRegion(region: string): Promise<{ lat: number; lng: number }> {
+  const { center } = await geocodeRegionBounds(region);
+  return center;
+}
+
+/**
+ * Parse a "minLon,minLat,maxLon,maxLat" string
+ * @returns null if it isn't four numbers within longitude/latitude range with min <= max
+ * (minLon > maxLon is allowed: the box crosses the antimeridian)
+ */
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(',').map(part => Number(part.trim()));
+  if (parts.length !== 4 || parts.some(part => !Number.isFinite(part))) {
+    return null;
+  }
+  const [minLon, minLat, maxLon, maxLat] = parts;
+  if (Math.abs(minLon) > 180 || Math.abs(maxLon) > 180 || Math.abs(minLat) > 90 || Math.abs(maxLat) > 90 || minLat > maxLat) {
+    return null;
+  }
+  return [minLon, minLat, maxLon, maxLat];
+}
+
+/**
+ * Whether a point lies inside a bounding box
+ */
+export function isInBoundingBox(lat: number, lon: number, bbox: BoundingBox): boolean {
+  const [minLon, minLat, maxLon, maxLat] = bbox;
+  if (lat < minLat || lat > maxLat) return false;
+  // A box crossing the antimeridian wraps around
+  return minLon <= maxLon ? lon >= minLon && lon <= maxLon : lon >= minLon || lon <= maxLon;
+}
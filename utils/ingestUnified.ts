@@ -1,99 +1,100 @@
 // =====================
 // UNIFIED INGESTION MODULE
 // =====================
-// Collects posts/events from multiple sources:
-// - NewsAPI (country-level)
+// Collects posts/events from the registered source adapters (see sources.ts):
+// - Bluesky (live firehose buffer, falling back to search)
+// - Mastodon (streamed into the same buffer)
 // - GDELT (geo-coded)
-// - Optional region filtering
-// Returns normalized Post objects
+// - NewsAPI (country-level search, or top headlines by category)
+// - RSS/Atom feeds (per-country feed catalog)
+// - The CSV dataset and mock data
+// Returns normalized Post objects, optionally with syndicated copies collapsed (see nearDuplicates.ts)
 
-import { fetchNewsForCountry } from "./newsApiClient";
-import { fetchGdeltEvents } from "./gdeltClient";
-import { countryCodeMap } from "./countryMap";
-import { filterByRegion } from "./regionFilter";
+import { fetchFromSource, getDefaultSources, getSource, getSourceKind, type SourceQuery } from "./sources";
+import { collapseNearDuplicates, type NearDuplicateOptions } from "./nearDuplicates";
 
 // Unified Post interface (compatible with regionFilter)
 export interface UnifiedPost {
   text: string;
   createdAt: string; // ISO string
-  source: 'newsapi' | 'gdelt';
+  source: string; // Source adapter id, e.g. "bluesky", "gdelt"
   uri: string;
   cid: string;
   lat: number | null;
   lon: number | null;
   region?: string;
   tone?: number; // GDELT sentiment score
+  category?: string; // News category, e.g. "health" (NewsAPI top headlines)
+  language?: string; // ISO 639-1 code, when the source reports it (or was asked for one language)
+  fullText?: string; // Lead paragraphs of the linked article, when enriched (see articleExtractor.ts)
+  duplicateCount?: number; // Near-duplicate copies collapsed into this post
+  duplicateSources?: string[]; // Outlets (or source ids) of this post and its copies
 }
 
-/**
- * Unified ingestion function that collects posts from multiple sources
- * @param region - Region name (e.g., "United States", "New York", "France")
- * @returns Array of normalized post objects
- */
-export async function ingestUnified(region?: string): Promise<UnifiedPost[]> {
-  // ------------------------------
-  // 1. DETERMINE COUNTRY CODE
-  // ------------------------------
-  const normalizedRegion = (region || "").toLowerCase().trim();
-  const countryCode = countryCodeMap[normalizedRegion] || countryCodeMap["default"];
+// Social posts vs. news articles - lets the map style them differently
+export type SourceKind = 'social' | 'news';
 
-  // ------------------------------
-  // 2. NEWSAPI POSTS (country-level)
-  // ------------------------------
-  const newsPosts = await fetchNewsForCountry(countryCode, 20).catch(err => {
-    console.warn('[Ingest] NewsAPI error:', err);
-    return [];
-  });
+export function sourceKind(source: string): SourceKind {
+  return getSourceKind(source);
+}
 
-  // ------------------------------
-  // 3. GDELT EVENTS (country-filtered)
-  // ------------------------------
-  // Get country name for GDELT API filtering
-  const { getCountryNameForGdelt } = await import('./countryMap');
-  const countryName = region ? getCountryNameForGdelt(region) : undefined;
-  
-  const gdeltPosts = await fetchGdeltEvents(100, countryName).catch(err => {
-    console.warn('[Ingest] GDELT error:', err);
-    return [];
-  });
+export interface IngestResult {
+  posts: UnifiedPost[];
+  counts: Record<string, number>; // Posts contributed by each source
+  errors: Record<string, string>; // Sources whose fetch failed, with the error message
+  duplicatesCollapsed: number; // Copies removed by near-duplicate collapsing (0 if not requested)
+}
 
-  // ------------------------------
-  // MERGE SOURCES (normalize to UnifiedPost format)
-  // ------------------------------
-  const newsPostsNormalized: UnifiedPost[] = newsPosts.map((post, index) => ({
-    text: post.text,
-    createdAt: new Date(post.createdAt).toISOString(),
-    source: 'newsapi' as const,
-    uri: post.url || `newsapi-${index}`,
-    cid: `newsapi-${index}`,
-    lat: null,
-    lon: null,
-    region: post.region,
-  }));
+export interface IngestOptions {
+  collapseDuplicates?: boolean | NearDuplicateOptions; // Merge syndicated copies of one story
+}
 
-  const gdeltPostsNormalized: UnifiedPost[] = gdeltPosts.map((post, index) => ({
-    text: post.text,
-    createdAt: new Date(post.createdAt).toISOString(),
-    source: 'gdelt' as const,
-    uri: post.url || `gdelt-${index}`,
-    cid: `gdelt-${index}`,
-    lat: post.coordinates ? post.coordinates[1] : null, // lat is second in [lng, lat]
-    lon: post.coordinates ? post.coordinates[0] : null, // lng is first
-    region: post.region,
-    tone: post.tone,
-  }));
+/**
+ * Fetch from several sources in parallel
+ * Sources are independent - one failing is recorded in `errors` and doesn't sink the others
+ * @param query - Region and time window; limit applies per source (defaults to each adapter's defaultLimit)
+ * @param sources - Source adapter ids (must be registered)
+ * @param options - Whether to collapse near-duplicates across sources (counts are before collapsing)
+ */
+export async function ingestSources(
+  query: Omit<SourceQuery, 'limit'> & { limit?: number },
+  sources: string[],
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const results = await Promise.all(sources.map(source =>
+    fetchFromSource(source, { ...query, limit: query.limit ?? getSource(source)?.defaultLimit ?? 100 })
+      .then(posts => ({ posts, error: null as string | null }))
+      .catch(err => {
+        console.warn(`[Ingest] ${source} error:`, err);
+        return { posts: [] as UnifiedPost[], error: err instanceof Error ? err.message : String(err) };
+      })
+  ));
 
-  let all: UnifiedPost[] = [...newsPostsNormalized, ...gdeltPostsNormalized];
+  const counts: Record<string, number> = {};
+  const errors: Record<string, string> = {};
+  sources.forEach((source, i) => {
+    counts[source] = results[i].posts.length;
+    if (results[i].error !== null) {
+      errors[source] = results[i].error as string;
+    }
+  });
 
-  // ------------------------------
-  // REGION FILTERING (text-based)
-  // ------------------------------
-  if (region) {
-    // filterByRegion expects posts with text property, which UnifiedPost has
-    // Cast to any to work with existing filterByRegion function
-    all = filterByRegion(all as any, region) as UnifiedPost[];
+  const posts = results.flatMap(result => result.posts);
+  if (!options.collapseDuplicates) {
+    return { posts, counts, errors, duplicatesCollapsed: 0 };
   }
 
-  return all;
+  const deduped = collapseNearDuplicates(posts, options.collapseDuplicates === true ? {} : options.collapseDuplicates);
+  return { posts: deduped.posts, counts, errors, duplicatesCollapsed: deduped.collapsed };
 }
 
+/**
+ * Unified ingestion function that collects posts from multiple sources
+ * @param region - Region name (e.g., "United States", "New York", "France")
+ * @param sources - Source adapter ids (defaults to ENABLED_SOURCES / the enabled-by-default adapters)
+ * @returns Array of normalized post objects
+ */
+export async function ingestUnified(region?: string, sources: string[] = getDefaultSources()): Promise<UnifiedPost[]> {
+  const { posts } = await ingestSources({ region }, sources);
+  return posts;
+}
@@ -0,0 +1,114 @@
+// =====================
+// JETSTREAM SUBSCRIPTION OPTIONS
+// =====================
+// Server-side filtering for the Jetstream firehose.
+// Instead of receiving every commit on the network and dropping non-posts
+// client-side, we tell Jetstream which collections/DIDs we want.
+//
+// Options can be set when connecting (query parameters) or changed live
+// by sending an "options_update" message on the open socket.
+// Docs: https://github.com/bluesky-social/jetstream#consuming-jetstream
+
+// Jetstream rejects subscriptions beyond these limits
+const MAX_WANTED_COLLECTIONS = 100;
+const MAX_WANTED_DIDS = 10000;
+
+// Long DID allow-lists don't fit in a URL - above this we connect with
+// requireHello and send the options as the first message instead
+const MAX_DIDS_IN_QUERY = 100;
+
+export interface JetstreamSubscriptionOptions {
+  wantedCollections?: string[]; // NSIDs or prefixes, e.g. "app.bsky.feed.post" or "app.bsky.feed.*"
+  wantedDids?: string[]; // Only receive events from these repos
+  maxMessageSizeBytes?: number; // Drop events larger than this (0 = no limit)
+}
+
+export const DEFAULT_SUBSCRIPTION: JetstreamSubscriptionOptions = {
+  wantedCollections: ['app.bsky.feed.post'],
+};
+
+/**
+ * Clean up subscription options: dedupe, drop empty values, enforce Jetstream limits
+ */
+export function normalizeSubscription(options: JetstreamSubscriptionOptions): JetstreamSubscriptionOptions {
+  const normalized: JetstreamSubscriptionOptions = {};
+
+  if (options.wantedCollections) {
+    const collections = [...new Set(options.wantedCollections.map(c => c.trim()).filter(Boolean))];
+    if (collections.length > MAX_WANTED_COLLECTIONS) {
+      console.warn(`[Jetstream] ${collections.length} wantedCollections requested, only the first ${MAX_WANTED_COLLECTIONS} will be used`);
+    }
+    normalized.wantedCollections = collections.slice(0, MAX_WANTED_COLLECTIONS);
+  }
+
+  if (options.wantedDids) {
+    const dids = [...new Set(options.wantedDids.map(d => d.trim()).filter(d => d.startsWith('did:')))];
+    if (dids.length > MAX_WANTED_DIDS) {
+      console.warn(`[Jetstream] ${dids.length} wantedDids requested, only the first ${MAX_WANTED_DIDS} will be used`);
+    }
+    normalized.wantedDids = dids.slice(0, MAX_WANTED_DIDS);
+  }
+
+  if (options.maxMessageSizeBytes !== undefined && Number.isFinite(options.maxMessageSizeBytes)) {
+    normalized.maxMessageSizeBytes = Math.max(0, Math.floor(options.maxMessageSizeBytes));
+  }
+
+  return normalized;
+}
+
+/**
+ * Whether the options are too big for the URL and must be sent after connecting
+ */
+export function requiresHello(options: JetstreamSubscriptionOptions): boolean {
+  return (options.wantedDids?.length || 0) > MAX_DIDS_IN_QUERY;
+}
+
+/**
+ * Build the Jetstream subscribe URL with filters and (optionally) a resume cursor
+ * @param endpoint - Jetstream subscribe endpoint, e.g. "wss://jetstream2.us-east.bsky.network/subscribe"
+ * @param options - Subscription filters
+ * @param cursor - time_us to replay from, or null to start from "now"
+ */
+export function buildJetstreamUrl(
+  endpoint: string,
+  options: JetstreamSubscriptionOptions,
+  cursor: number | null = null
+): string {
+  const url = new URL(endpoint);
+
+  if (requiresHello(options)) {
+    // Jetstream waits for our options_update before sending anything
+    url.searchParams.set('requireHello', 'true');
+  } else {
+    for (const collection of options.wantedCollections || []) {
+      url.searchParams.append('wantedCollections', collection);
+    }
+    for (const did of options.wantedDids || []) {
+      url.searchParams.append('wantedDids', did);
+    }
+    if (options.maxMessageSizeBytes) {
+      url.searchParams.set('maxMessageSizeBytes', String(options.maxMessageSizeBytes));
+    }
+  }
+
+  if (cursor !== null) {
+    url.searchParams.set('cursor', String(cursor));
+  }
+
+  return url.toString();
+}
+
+/**
+ * Build the "options_update" message that changes filters on an open socket
+ * Jetstream replaces the whole option set, so always send every field
+ */
+export function buildOptionsUpdateMessage(options: JetstreamSubscriptionOptions): string {
+  return JSON.stringify({
+    type: 'options_update',
+    payload: {
+      wantedCollections: options.wantedCollections || [],
+      wantedDids: options.wantedDids || [],
+      maxMessageSizeBytes: options.maxMessageSizeBytes || 0,
+    },
+  });
+}
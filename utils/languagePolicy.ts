@@ -0,0 +1,174 @@
+// =====================
+// LANGUAGE POLICY
+// =====================
+// Which languages to request for a region. English-only coverage of a non-English
+// country mostly reflects how the world talks about it, not how it talks about itself.
+// - native   the country's own languages only
+// - english  English only
+// - both     native languages plus English (default)
+// Global queries aren't restricted.
+//
+// Languages are ISO 639-1 codes ("fr"). Sources record the language of each post on
+// UnifiedPost.language in the same form.
+//
+// Optional environment variables:
+// - LANGUAGE_POLICY (default policy: "native", "english" or "both")
+// - REGION_LANGUAGE_POLICY (per-country overrides, e.g. "France=native,Japan=english";
+//   countries can be given as names or codes, cities map to their country)
+
+import { getCountryNameForGdelt } from './countryMap';
+
+export type LanguagePolicy = 'native' | 'english' | 'both';
+
+export const LANGUAGE_POLICIES: LanguagePolicy[] = ['native', 'english', 'both'];
+
+// Languages used by the country's own press, keyed by the GDELT country names in countryMap.ts
+const COUNTRY_LANGUAGES: Record<string, string[]> = {
+  'United States': ['en'],
+  'Canada': ['en', 'fr'],
+  'United Kingdom': ['en'],
+  'France': ['fr'],
+  'Germany': ['de'],
+  'Japan': ['ja'],
+  'Brazil': ['pt'],
+  'India': ['hi', 'en'],
+  'Nigeria': ['en'],
+  'South Africa': ['en', 'af'],
+  'Mexico': ['es'],
+  'Haiti': ['fr', 'ht'],
+  'Netherlands': ['nl'],
+  'Australia': ['en'],
+  'Austria': ['de'],
+  'China': ['zh'],
+  'Russia': ['ru'],
+  'Spain': ['es'],
+  'Italy': ['it'],
+  'Sweden': ['sv'],
+  'Norway': ['no'],
+  'Denmark': ['da'],
+  'Finland': ['fi'],
+  'Ireland': ['en'],
+  'New Zealand': ['en'],
+  'Argentina': ['es'],
+  'Colombia': ['es'],
+  'Egypt': ['ar'],
+  'Saudi Arabia': ['ar'],
+  'United Arab Emirates': ['ar'],
+  'Turkey': ['tr'],
+  'Indonesia': ['id'],
+  'Philippines': ['en', 'tl'],
+  'Thailand': ['th'],
+  'Vietnam': ['vi'],
+  'South Korea': ['ko'],
+  'Pakistan': ['ur', 'en'],
+  'Bangladesh': ['bn'],
+  'Iran': ['fa'],
+  'Israel': ['he'],
+  'Greece': ['el'],
+  'Poland': ['pl'],
+  'Switzerland': ['de', 'fr', 'it'],
+  'Belgium': ['nl', 'fr'],
+  'Lebanon': ['ar', 'fr'],
+};
+
+// English names - what GDELT uses for sourcelang and reports per article
+const LANGUAGE_NAMES: Record<string, string> = {
+  af: 'Afrikaans', ar: 'Arabic', bn: 'Bengali', da: 'Danish', de: 'German', el: 'Greek',
+  en: 'English', es: 'Spanish', fa: 'Persian', fi: 'Finnish', fr: 'French', he: 'Hebrew',
+  hi: 'Hindi', ht: 'Haitian Creole', id: 'Indonesian', it: 'Italian', ja: 'Japanese',
+  ko: 'Korean', nl: 'Dutch', no: 'Norwegian', pl: 'Polish', pt: 'Portuguese', ru: 'Russian',
+  sv: 'Swedish', th: 'Thai', tl: 'Tagalog', tr: 'Turkish', uk: 'Ukrainian', ur: 'Urdu',
+  vi: 'Vietnamese', zh: 'Chinese',
+};
+
+// Alternative names and codes seen in source data
+const LANGUAGE_ALIASES: Record<string, string> = {
+  nb: 'no', nn: 'no', iw: 'he', farsi: 'fa', filipino: 'tl', 'chinese (simplified)': 'zh', 'chinese (traditional)': 'zh',
+};
+
+export function isLanguagePolicy(value: unknown): value is LanguagePolicy {
+  return typeof value === 'string' && (LANGUAGE_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Normalize a language tag or name to an ISO 639-1 code
+ * "pt-BR" -> "pt", "French" -> "fr", "nb" -> "no"
+ * @returns undefined if the value is empty or not recognized
+ */
+export function normalizeLanguage(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const lower = value.trim().toLowerCase();
+  if (LANGUAGE_ALIASES[lower]) return LANGUAGE_ALIASES[lower];
+
+  const code = lower.split(/[-_]/)[0];
+  if (/^[a-z]{2}$/.test(code)) {
+    return LANGUAGE_ALIASES[code] ?? code;
+  }
+  const byName = Object.entries(LANGUAGE_NAMES).find(([, name]) => name.toLowerCase() === lower);
+  return byName?.[0];
+}
+
+/**
+ * English name of a language code (GDELT sourcelang), or the code itself if unknown
+ */
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? code;
+}
+
+/**
+ * Languages of a region's country (empty if the country isn't known)
+ */
+export function getNativeLanguages(region: string): string[] {
+  const country = getCountryNameForGdelt(region);
+  return country ? COUNTRY_LANGUAGES[country] ?? [] : [];
+}
+
+/**
+ * Policy for a region: the request's choice, then REGION_LANGUAGE_POLICY, then LANGUAGE_POLICY, then "both"
+ */
+export function getLanguagePolicy(region?: string, requested?: LanguagePolicy): LanguagePolicy {
+  if (requested) {
+    return requested;
+  }
+
+  const country = region ? getCountryNameForGdelt(region) : undefined;
+  if (country) {
+    for (const entry of (process.env.REGION_LANGUAGE_POLICY || '').split(',')) {
+      const [key, policy] = entry.split('=').map(part => part.trim());
+      if (key && isLanguagePolicy(policy) && getCountryNameForGdelt(key) === country) {
+        return policy;
+      }
+    }
+  }
+
+  const fallback = process.env.LANGUAGE_POLICY;
+  return isLanguagePolicy(fallback) ? fallback : 'both';
+}
+
+/**
+ * Languages to request for a region under a policy
+ * @returns ISO 639-1 codes, or undefined for no restriction (global queries, or a
+ * native/both policy for a country whose languages aren't known)
+ */
+export function resolveLanguages(region: string | undefined, policy: LanguagePolicy): string[] | undefined {
+  if (!region) {
+    return undefined;
+  }
+  if (policy === 'english') {
+    return ['en'];
+  }
+
+  const native = getNativeLanguages(region);
+  if (native.length === 0) {
+    return undefined;
+  }
+  return policy === 'native' ? native : [...new Set([...native, 'en'])];
+}
+
+/**
+ * Whether a post's language is allowed
+ * Posts with no known language are kept - there's nothing to filter on
+ */
+export function matchesLanguages(language: string | undefined, languages: string[] | undefined): boolean {
+  return !languages || !language || languages.includes(language);
+}
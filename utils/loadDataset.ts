@@ -1,7 +1,19 @@
 import fs from 'fs';
 import path from 'path';
+import readline from 'readline';
+import type { Readable } from 'stream';
 import Papa from 'papaparse';
 
+// =====================
+// DATASET LOADER
+// =====================
+// Streams rows out of a CSV, TSV or NDJSON file - nothing is read into memory beyond
+// the rows asked for, so large corpora can be paged through.
+//
+// Columns are mapped by name: each field lists the column(s) it may come from and the
+// first non-empty one wins. Names are case-insensitive; NDJSON fields can use dotted
+// paths into nested objects ("geo.lat"). The defaults fit the bundled disaster-tweets CSV.
+
 // =====================
 // TYPES
 // =====================
@@ -11,107 +23,314 @@ export interface TweetData {
   lon: number | null;
   source: string;
   source_file?: string;
+  id?: string;
+  createdAt?: string; // ISO string, when the row has a parseable timestamp
+  language?: string;
+  region?: string;
+}
+
+export type DatasetFormat = 'csv' | 'tsv' | 'ndjson';
+
+export const DATASET_FORMATS: DatasetFormat[] = ['csv', 'tsv', 'ndjson'];
+
+// Column name(s) for each field
+export interface DatasetColumnMap {
+  text: string | string[];
+  lat?: string | string[];
+  lon?: string | string[];
+  timestamp?: string | string[]; // ISO dates, anything Date can parse, or epoch seconds/milliseconds
+  id?: string | string[];
+  language?: string | string[];
+  region?: string | string[];
+}
+
+export const DATASET_COLUMN_FIELDS: Array<keyof DatasetColumnMap> = ['text', 'lat', 'lon', 'timestamp', 'id', 'language', 'region'];
+
+export interface DatasetLoadOptions {
+  format?: DatasetFormat; // Default: from the file extension, else CSV
+  columns?: Partial<DatasetColumnMap>; // Overrides DEFAULT_COLUMNS field by field
+  offset?: number; // Rows (with text) to skip first
+  limit?: number; // Rows to return (default: all)
+}
+
+export interface DatasetStats {
+  rows: number; // Rows with text that were read (skipped offset rows included)
+  skipped: number; // Rows without text or that failed to parse
+  located: number; // Rows with valid coordinates
+  done: boolean; // True if the whole file was read, false if rows remain after the limit
+}
+
+export const DEFAULT_COLUMNS: Required<DatasetColumnMap> = {
+  text: ['text', 'tweet'],
+  lat: ['lat', 'latitude'],
+  lon: ['lon', 'longitude', 'lng'],
+  timestamp: ['timestamp', 'created_at', 'date'],
+  id: ['id', 'tweet_id'],
+  language: ['language', 'lang'],
+  region: ['region'],
+};
+
+// Checked in order - the first one that exists is used
+const DATASET_PATHS = [
+  path.join(process.cwd(), 'data', 'disaster_tweets_merged.csv'),
+  path.join(process.cwd(), 'app', 'data', 'disaster_tweets', 'disaster_tweets.csv'),
+];
+
+/**
+ * Path of the dataset CSV, or null if none of the known locations exist
+ */
+export function findDatasetPath(): string | null {
+  return DATASET_PATHS.find(possiblePath => fs.existsSync(possiblePath)) || null;
+}
+
+export function isDatasetFormat(value: unknown): value is DatasetFormat {
+  return typeof value === 'string' && (DATASET_FORMATS as string[]).includes(value);
+}
+
+/**
+ * Format of a file from its extension (".jsonl" counts as NDJSON)
+ * @returns null if the extension isn't recognized
+ */
+export function detectDatasetFormat(fileName: string): DatasetFormat | null {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.csv') return 'csv';
+  if (ext === '.tsv' || ext === '.tab') return 'tsv';
+  if (ext === '.ndjson' || ext === '.jsonl') return 'ndjson';
+  return null;
 }
 
 // =====================
-// LOAD DATASET FUNCTION
+// ROW MAPPING
 // =====================
+function toList(names: string | string[] | undefined): string[] {
+  if (!names) return [];
+  return (Array.isArray(names) ? names : [names]).map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
 /**
- * Loads tweet data from CSV file
- * @param limit - Optional limit on number of rows to return (default: 1000)
- * @returns Promise with array of tweet data
+ * Look up a (lowercased) column name, following dotted paths into nested objects
  */
-export async function loadDataset(limit: number = 1000): Promise<TweetData[]> {
-  // Construct file path - check both possible locations
-  const possiblePaths = [
-    path.join(process.cwd(), 'data', 'disaster_tweets_merged.csv'),
-    path.join(process.cwd(), 'app', 'data', 'disaster_tweets', 'disaster_tweets.csv'),
-  ];
-
-  let csvPath: string | null = null;
-  for (const possiblePath of possiblePaths) {
-    if (fs.existsSync(possiblePath)) {
-      csvPath = possiblePath;
-      break;
-    }
+function valueAt(row: Record<string, unknown>, name: string): unknown {
+  if (name in row) return row[name];
+  if (!name.includes('.')) return undefined;
+
+  let current: unknown = row;
+  for (const key of name.split('.')) {
+    if (!current || typeof current !== 'object') return undefined;
+    const entry = Object.entries(current as Record<string, unknown>).find(([field]) => field.toLowerCase() === key);
+    current = entry?.[1];
   }
+  return current;
+}
 
-  if (!csvPath) {
-    throw new Error(
-      `CSV file not found. Checked: ${possiblePaths.join(', ')}`
-    );
+/**
+ * First non-empty value among the candidate columns, as a trimmed string
+ */
+function pick(row: Record<string, unknown>, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = valueAt(row, name);
+    if (value === undefined || value === null || typeof value === 'object') continue;
+    const text = String(value).trim();
+    if (text) return text;
   }
+  return undefined;
+}
 
-  // Read CSV file
-  const csvContent = fs.readFileSync(csvPath, 'utf-8');
+function parseCoordinate(value: string | undefined, max: number): number | null {
+  if (value === undefined) return null;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= max ? parsed : null;
+}
 
-  // Parse CSV
-  const parseResult = Papa.parse(csvContent, {
-    header: true,
-    skipEmptyLines: true,
-    transformHeader: (header) => header.trim().toLowerCase(),
-  });
+/**
+ * Timestamp to ISO: numbers are epoch seconds (< 1e11) or milliseconds
+ */
+function parseTimestamp(value: string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  const numeric = /^\d+(\.\d+)?$/.test(value) ? Number(value) : NaN;
+  const date = Number.isFinite(numeric)
+    ? new Date(numeric < 1e11 ? numeric * 1000 : numeric)
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
 
-  if (parseResult.errors.length > 0) {
-    console.warn('CSV parsing errors:', parseResult.errors);
-  }
+type ResolvedColumns = Record<keyof DatasetColumnMap, string[]>;
 
-  // Get headers to check for lat/lon columns
-  const headers = parseResult.meta.fields || [];
-  const hasLat = headers.includes('lat') || headers.includes('latitude');
-  const hasLon = headers.includes('lon') || headers.includes('longitude') || headers.includes('lng');
-
-  // Transform data
-  const tweets: TweetData[] = parseResult.data
-    .slice(0, limit) // Apply limit
-    .map((row: any) => {
-      // Clean text - strip quotes and trim whitespace
-      let text = row.text || row.tweet || '';
-      if (typeof text === 'string') {
-        // Remove surrounding quotes if present
-        text = text.replace(/^["']|["']$/g, '').trim();
-      } else {
-        text = String(text).trim();
-      }
+function resolveColumns(columns: Partial<DatasetColumnMap> = {}): ResolvedColumns {
+  return Object.fromEntries(
+    DATASET_COLUMN_FIELDS.map(field => [field, toList(columns[field] ?? DEFAULT_COLUMNS[field])])
+  ) as ResolvedColumns;
+}
+
+/**
+ * Map a raw row (lowercased keys) to TweetData
+ * @returns null if the row has no text
+ */
+function mapRow(row: Record<string, unknown>, columns: ResolvedColumns): TweetData | null {
+  // Strip quotes left around the text and trim whitespace
+  const text = (pick(row, columns.text) || '').replace(/^["']|["']$/g, '').trim();
+  if (!text) return null;
 
-      // Extract lat/lon if available
-      let lat: number | null = null;
-      let lon: number | null = null;
+  const lat = parseCoordinate(pick(row, columns.lat), 90);
+  const lon = parseCoordinate(pick(row, columns.lon), 180);
+  const located = lat !== null && lon !== null;
 
-      if (hasLat) {
-        const latValue = row.lat || row.latitude;
-        if (latValue !== undefined && latValue !== null && latValue !== '') {
-          const parsed = parseFloat(String(latValue));
-          if (!isNaN(parsed)) {
-            lat = parsed;
-          }
+  return {
+    text,
+    // A coordinate without its pair can't be placed
+    lat: located ? lat : null,
+    lon: located ? lon : null,
+    source: pick(row, ['source']) || 'unknown',
+    source_file: pick(row, ['source_file']) || '',
+    id: pick(row, columns.id),
+    createdAt: parseTimestamp(pick(row, columns.timestamp)),
+    language: pick(row, columns.language),
+    region: pick(row, columns.region),
+  };
+}
+
+function lowerKeys(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key.toLowerCase(), entry]));
+}
+
+// =====================
+// STREAMING
+// =====================
+/**
+ * Stream rows out of a CSV, TSV or NDJSON stream
+ * The input is destroyed once onRow asks to stop or the limit is reached.
+ * @param input - File or upload stream
+ * @param options - Format, column mapping, offset and limit
+ * @param onRow - Called for each mapped row after the offset; return false to stop early
+ * @returns Row counts
+ * @throws Error if a CSV/TSV header has none of the text columns, or the stream fails
+ */
+export async function streamDataset(
+  input: Readable,
+  options: DatasetLoadOptions,
+  onRow: (row: TweetData, index: number) => boolean | void
+): Promise<DatasetStats> {
+  const columns = resolveColumns(options.columns);
+  const offset = Math.max(0, Math.floor(options.offset ?? 0));
+  const limit = options.limit ?? Infinity;
+  const stats: DatasetStats = { rows: 0, skipped: 0, located: 0, done: true };
+  let emitted = 0;
+
+  // Returns false once no more rows are wanted
+  const handle = (raw: Record<string, unknown>): boolean => {
+    const row = mapRow(raw, columns);
+    if (!row) {
+      stats.skipped++;
+      return true;
+    }
+    const index = stats.rows++;
+    if (row.lat !== null) stats.located++;
+    if (index < offset) return true;
+
+    if (emitted >= limit || onRow(row, index) === false) {
+      stats.done = false;
+      return false;
+    }
+    emitted++;
+    // Keep going until the row after the last one, so `done` tells whether more rows exist
+    return true;
+  };
+
+  if ((options.format ?? 'csv') === 'ndjson') {
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          stats.skipped++;
+          continue;
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          stats.skipped++;
+          continue;
+        }
+        if (!handle(lowerKeys(parsed as Record<string, unknown>))) {
+          stats.done = false;
+          break;
         }
       }
+    } finally {
+      lines.close();
+      input.destroy();
+    }
+    return stats;
+  }
 
-      if (hasLon) {
-        const lonValue = row.lon || row.longitude || row.lng;
-        if (lonValue !== undefined && lonValue !== null && lonValue !== '') {
-          const parsed = parseFloat(String(lonValue));
-          if (!isNaN(parsed)) {
-            lon = parsed;
+  await new Promise<void>((resolve, reject) => {
+    let headerChecked = false;
+    Papa.parse<Record<string, string>>(input, {
+      header: true,
+      delimiter: options.format === 'tsv' ? '\t' : '',
+      skipEmptyLines: true,
+      transformHeader: header => header.trim().toLowerCase(),
+      step: (result, parser) => {
+        if (!headerChecked) {
+          headerChecked = true;
+          const fields = result.meta.fields || [];
+          if (!columns.text.some(name => fields.includes(name))) {
+            reject(new Error(`Text column not found (looked for ${columns.text.join(', ')}; columns: ${fields.join(', ')})`));
+            parser.abort();
+            return;
           }
         }
-      }
-
-      // Extract source
-      const source = row.source || 'unknown';
-      const sourceFile = row.source_file || '';
+        if (!handle(result.data)) {
+          stats.done = false;
+          parser.abort();
+        }
+      },
+      complete: () => resolve(),
+      error: (error: Error) => reject(error),
+    });
+  }).finally(() => input.destroy());
 
-      return {
-        text,
-        lat,
-        lon,
-        source: String(source),
-        source_file: String(sourceFile),
-      };
-    })
-    .filter((tweet: TweetData) => tweet.text.length > 0); // Filter out empty tweets
+  return stats;
+}
 
-  return tweets;
+/**
+ * Load rows from a dataset file
+ * @param filePath - CSV, TSV or NDJSON file
+ * @param options - Format (default: from the extension), column mapping, offset and limit
+ * @returns The rows and counts
+ * @throws Error if the file can't be read or has no text column
+ */
+export async function loadDatasetFile(
+  filePath: string,
+  options: DatasetLoadOptions = {}
+): Promise<{ rows: TweetData[]; stats: DatasetStats }> {
+  const rows: TweetData[] = [];
+  const format = options.format ?? detectDatasetFormat(filePath) ?? 'csv';
+  const stats = await streamDataset(fs.createReadStream(filePath, 'utf-8'), { ...options, format }, row => {
+    rows.push(row);
+  });
+  return { rows, stats };
 }
 
+/**
+ * Loads tweet data from the bundled CSV file
+ * @param limit - Optional limit on number of rows to return (default: 1000)
+ * @param options - Optional offset and column mapping
+ * @returns Promise with array of tweet data
+ */
+export async function loadDataset(limit: number = 1000, options: Omit<DatasetLoadOptions, 'limit'> = {}): Promise<TweetData[]> {
+  const csvPath = findDatasetPath();
+
+  if (!csvPath) {
+    throw new Error(
+      `CSV file not found. Checked: ${DATASET_PATHS.join(', ')}`
+    );
+  }
+
+  const { rows, stats } = await loadDatasetFile(csvPath, { ...options, limit });
+  if (stats.skipped > 0) {
+    console.warn(`[Dataset] Skipped ${stats.skipped} rows without text or with parse errors`);
+  }
+  return rows;
+}
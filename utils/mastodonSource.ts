@@ -0,0 +1,49 @@
+// =====================
+// MASTODON SOURCE
+// =====================
+// Fediverse statuses streamed into the post buffer (see mastodonStream.ts).
+// Empty until a stream is started - there's no search fallback.
+
+import type { BlueskyPost } from './blueskyClient';
+import { postBuffer } from './blueskyFirehose';
+import { matchesLanguages, normalizeLanguage } from './languagePolicy';
+import { withinWindow, type SourceAdapter, type SourceQuery } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+async function fetchMastodon(query: SourceQuery): Promise<BlueskyPost[]> {
+  if (!postBuffer.isMastodonActive()) {
+    return [];
+  }
+
+  const { region, limit } = query;
+  const posts = (region ? postBuffer.getPostsForRegion(region, limit, 'mastodon') : postBuffer.getAllPosts(limit, 'mastodon'))
+    .filter(post => withinWindow(post.createdAt, query) && matchesLanguages(normalizeLanguage(post.langs?.[0]), query.languages));
+  console.log(`[Ingest] Mastodon: ${posts.length} statuses from buffer${region ? ` for ${region}` : ''}`);
+  return posts;
+}
+
+function normalizeMastodonPosts(posts: BlueskyPost[], query: SourceQuery): UnifiedPost[] {
+  return posts.map(post => ({
+    text: post.text,
+    createdAt: new Date(post.createdAt).toISOString(),
+    source: 'mastodon',
+    uri: post.uri,
+    cid: post.cid,
+    lat: null, // Statuses carry no location - spread around the region center
+    lon: null,
+    region: query.region,
+    language: normalizeLanguage(post.langs?.[0]),
+  }));
+}
+
+export const mastodonSource: SourceAdapter<BlueskyPost> = {
+  id: 'mastodon',
+  label: 'Mastodon',
+  kind: 'social',
+  enabledByDefault: true,
+  defaultLimit: 100,
+  supportsTimeWindow: true,
+  isConfigured: () => postBuffer.isMastodonActive() || !!process.env.MASTODON_BASE_URL,
+  fetch: fetchMastodon,
+  normalize: normalizeMastodonPosts,
+};
@@ -0,0 +1,126 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { BlueskyPost } from './blueskyClient';
+import { MastodonStream, type MastodonStatus } from './mastodonStream';
+
+// =====================
+// MOCK STREAMING SERVER
+// =====================
+// Serves /api/v1/streaming/public as Server-Sent Events. Each connection plays the
+// next script from `connections`, then closes the response so the client reconnects.
+
+function status(id: string, content: string): MastodonStatus {
+  return {
+    id,
+    uri: `https://mock.social/users/alice/statuses/${id}`,
+    created_at: '2026-01-01T00:00:00.000Z',
+    content: `<p>${content}</p>`,
+    account: { acct: 'alice' },
+  };
+}
+
+function sse(event: string, data: string): string {
+  return `event: ${event}\ndata: ${data}\n\n`;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let connections: string[][];
+let requests: http.IncomingMessage[];
+
+beforeEach(async () => {
+  connections = [];
+  requests = [];
+  server = http.createServer((req, res) => {
+    requests.push(req);
+    const script = connections.shift();
+    if (req.url !== '/api/v1/streaming/public' || !script) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write(':thump\n\n');
+    for (const chunk of script) {
+      res.write(chunk);
+    }
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+function startStream() {
+  const posts: BlueskyPost[] = [];
+  const updates: BlueskyPost[] = [];
+  const deletes: string[] = [];
+  const stream = new MastodonStream(
+    { baseUrl, stream: 'public', accessToken: 'secret' },
+    {
+      onPost: post => posts.push(post),
+      onUpdate: post => updates.push(post),
+      onDelete: uri => deletes.push(uri),
+    }
+  );
+  stream.start();
+  return { stream, posts, updates, deletes };
+}
+
+// =====================
+// TESTS
+// =====================
+describe('MastodonStream', () => {
+  it('turns update, status.update and delete events into post callbacks', async () => {
+    connections.push([
+      sse('update', JSON.stringify(status('1', 'Flooding downtown &amp; rising'))),
+      sse('status.update', JSON.stringify(status('1', 'Flooding downtown, roads closed'))),
+      sse('update', JSON.stringify({ ...status('2', 'boost'), reblog: status('3', 'original') })),
+      sse('delete', '1'),
+      sse('delete', 'unknown-id'),
+    ]);
+    const { stream, posts, updates, deletes } = startStream();
+
+    try {
+      await vi.waitFor(() => expect(deletes).toHaveLength(1), { timeout: 3000 });
+
+      expect(posts).toHaveLength(1);
+      expect(posts[0]).toMatchObject({
+        text: 'Flooding downtown & rising',
+        source: 'mastodon',
+        uri: 'https://mock.social/users/alice/statuses/1',
+        authorDid: `alice@${new URL(baseUrl).host}`,
+      });
+      expect(updates.map(post => post.text)).toEqual(['Flooding downtown, roads closed']);
+      expect(deletes).toEqual(['https://mock.social/users/alice/statuses/1']);
+      expect(stream.getStats()).toMatchObject({ statuses: 1, skipped: 1, deletes: 1, parseErrors: 0 });
+      expect(requests[0].headers.authorization).toBe('Bearer secret');
+    } finally {
+      stream.stop();
+    }
+  });
+
+  it('reconnects after the server closes the stream', async () => {
+    connections.push(
+      [sse('update', JSON.stringify(status('10', 'first connection')))],
+      [sse('update', JSON.stringify(status('11', 'second connection')))]
+    );
+    const { stream, posts } = startStream();
+
+    try {
+      // The first reconnect waits at most INITIAL_RECONNECT_DELAY_MS (1s)
+      await vi.waitFor(() => expect(posts).toHaveLength(2), { timeout: 3000 });
+
+      expect(posts.map(post => post.text)).toEqual(['first connection', 'second connection']);
+      expect(requests).toHaveLength(2);
+      expect(stream.isRunning()).toBe(true);
+    } finally {
+      stream.stop();
+    }
+  });
+});
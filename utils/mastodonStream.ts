@@ -0,0 +1,362 @@
+// =====================
+// MASTODON STREAMING
+// =====================
+// Fediverse statuses from a Mastodon-compatible streaming API (Server-Sent Events):
+// - public        GET /api/v1/streaming/public
+// - public:local  GET /api/v1/streaming/public/local
+// - hashtag       GET /api/v1/streaming/hashtag?tag=<tag>
+//
+// Statuses are normalized to the same shape PostBuffer stores for Bluesky posts
+// (source "mastodon", HTML content stripped to plain text), so they go through the
+// same region filtering and emotion pipeline.
+// Spec: https://docs.joinmastodon.org/methods/streaming/
+//
+// Optional environment variables:
+// - MASTODON_BASE_URL (instance URL, e.g. "https://mastodon.social" - the stream is off without it)
+// - MASTODON_STREAM ("public" (default), "public:local" or "hashtag")
+// - MASTODON_HASHTAG (tag for the hashtag stream, without "#")
+// - MASTODON_ACCESS_TOKEN (many instances require a token for public streams)
+
+import { createParser, type EventSourceMessage } from 'eventsource-parser';
+
+import type { BlueskyPost } from './blueskyClient';
+import { decodeEntities } from './feedParser';
+import { backoffDelay } from './firehoseConnection';
+
+export type MastodonStreamType = 'public' | 'public:local' | 'hashtag';
+
+export interface MastodonStreamOptions {
+  baseUrl?: string; // Defaults to MASTODON_BASE_URL
+  stream?: MastodonStreamType; // Defaults to MASTODON_STREAM or "public"
+  tag?: string; // Required for the hashtag stream (defaults to MASTODON_HASHTAG)
+  accessToken?: string; // Defaults to MASTODON_ACCESS_TOKEN
+}
+
+export type ResolvedMastodonOptions = MastodonStreamOptions & { baseUrl: string; stream: MastodonStreamType };
+
+export interface MastodonStreamCallbacks {
+  onPost: (post: BlueskyPost) => void;
+  onUpdate?: (post: BlueskyPost) => void; // Edited status
+  onDelete?: (uri: string) => void;
+}
+
+export interface MastodonStreamStats {
+  baseUrl: string;
+  stream: MastodonStreamType;
+  tag: string | null;
+  connected: boolean;
+  statuses: number; // Statuses turned into posts
+  skipped: number; // Boosts and statuses without text
+  deletes: number;
+  parseErrors: number;
+  consecutiveFailures: number;
+  lastEventAt: string | null;
+}
+
+// Subset of the Mastodon Status entity we read
+// https://docs.joinmastodon.org/entities/Status/
+export interface MastodonStatus {
+  id: string;
+  uri: string; // ActivityPub id - globally unique
+  url?: string | null; // HTML page
+  created_at: string;
+  content: string; // HTML
+  spoiler_text?: string;
+  language?: string | null;
+  sensitive?: boolean;
+  reblog?: MastodonStatus | null;
+  account?: { acct: string; url?: string };
+  tags?: Array<{ name: string }>;
+  mentions?: Array<{ acct: string }>;
+  media_attachments?: Array<{ description?: string | null }>;
+  card?: { url: string; title?: string; description?: string } | null;
+}
+
+// Deletes only carry the status id - remember id -> uri for recent statuses
+const MAX_TRACKED_IDS = 20000;
+
+/**
+ * Mastodon status HTML to plain text
+ * Paragraphs and line breaks become newlines; link markup collapses to the full URL
+ */
+export function stripStatusHtml(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/p>\s*<p[^>]*>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '');
+  return decodeEntities(text)
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Map a status to the post shape PostBuffer stores
+ * @param status - Status from an "update" or "status.update" event
+ * @param instanceHost - Host of the streaming instance, used to qualify local accounts
+ * @returns null for boosts (the original is streamed on its own) and statuses without text
+ */
+export function postFromStatus(status: MastodonStatus, instanceHost: string): BlueskyPost | null {
+  if (status.reblog) {
+    return null;
+  }
+
+  const body = stripStatusHtml(status.content || '');
+  // Content warnings are part of what the author wrote - keep them in front of the body
+  const text = status.spoiler_text ? `${status.spoiler_text}\n\n${body}`.trim() : body;
+  if (!text) {
+    return null;
+  }
+
+  const acct = status.account?.acct;
+  const hashtags = (status.tags || []).map(tag => tag.name.toLowerCase());
+  const imageAlts = (status.media_attachments || [])
+    .map(media => media.description?.trim())
+    .filter((alt): alt is string => !!alt);
+
+  return {
+    text,
+    source: 'mastodon',
+    createdAt: status.created_at,
+    uri: status.uri,
+    cid: status.uri, // No content hash in ActivityPub - the id is unique, which is all dedupe needs
+    // Remote accounts are already "user@host"; local ones need the host added
+    authorDid: acct ? (acct.includes('@') ? acct : `${acct}@${instanceHost}`) : undefined,
+    langs: status.language ? [status.language] : undefined,
+    hashtags: hashtags.length > 0 ? hashtags : undefined,
+    mentions: status.mentions?.length ? status.mentions.map(mention => mention.acct) : undefined,
+    imageAlts: imageAlts.length > 0 ? imageAlts : undefined,
+    externalLink: status.card
+      ? { uri: status.card.url, title: status.card.title || '', description: status.card.description || '' }
+      : undefined,
+    links: status.card ? [status.card.url] : undefined,
+    labels: status.sensitive ? ['sensitive'] : undefined,
+  };
+}
+
+/**
+ * Streaming URL for a stream type
+ */
+export function buildStreamUrl(baseUrl: string, stream: MastodonStreamType, tag?: string): string {
+  const path = stream === 'public:local' ? 'public/local' : stream;
+  const url = new URL(`/api/v1/streaming/${path}`, baseUrl);
+  if (stream === 'hashtag' && tag) {
+    url.searchParams.set('tag', tag.replace(/^#/, ''));
+  }
+  return url.toString();
+}
+
+/**
+ * Stream options from MASTODON_* environment variables, overridden by `options`
+ * @returns null if no base URL is configured
+ */
+export function resolveMastodonOptions(options: MastodonStreamOptions = {}): ResolvedMastodonOptions | null {
+  const baseUrl = options.baseUrl || process.env.MASTODON_BASE_URL;
+  if (!baseUrl) {
+    return null;
+  }
+  const envStream = process.env.MASTODON_STREAM;
+  const stream = options.stream
+    || (envStream === 'public:local' || envStream === 'hashtag' ? envStream : 'public');
+  return {
+    baseUrl,
+    stream,
+    tag: options.tag || process.env.MASTODON_HASHTAG,
+    accessToken: options.accessToken || process.env.MASTODON_ACCESS_TOKEN,
+  };
+}
+
+export class MastodonStream {
+  private baseUrl: string;
+  private stream: MastodonStreamType;
+  private tag: string | null;
+  private accessToken: string | null;
+  private callbacks: MastodonStreamCallbacks;
+  private running: boolean = false;
+  private connected: boolean = false;
+  private abort: AbortController | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private consecutiveFailures: number = 0;
+  private uriById: Map<string, string> = new Map();
+  private statuses: number = 0;
+  private skipped: number = 0;
+  private deletes: number = 0;
+  private parseErrors: number = 0;
+  private lastEventAt: number | null = null;
+
+  /**
+   * @param options - Instance, stream type and token (see resolveMastodonOptions)
+   * @param callbacks - Where new, edited and deleted statuses go
+   * @throws Error if the hashtag stream has no tag or the base URL is invalid
+   */
+  constructor(options: ResolvedMastodonOptions, callbacks: MastodonStreamCallbacks) {
+    if (options.stream === 'hashtag' && !options.tag) {
+      throw new Error('The hashtag stream needs a tag');
+    }
+    this.baseUrl = new URL(options.baseUrl).origin;
+    this.stream = options.stream;
+    this.tag = options.tag ? options.tag.replace(/^#/, '') : null;
+    this.accessToken = options.accessToken || null;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Open the stream (no-op if already running)
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    void this.connect();
+  }
+
+  /**
+   * Close the stream and cancel any pending reconnect
+   */
+  stop(): void {
+    this.running = false;
+    this.connected = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.abort?.abort();
+    this.abort = null;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getStats(): MastodonStreamStats {
+    return {
+      baseUrl: this.baseUrl,
+      stream: this.stream,
+      tag: this.tag,
+      connected: this.connected,
+      statuses: this.statuses,
+      skipped: this.skipped,
+      deletes: this.deletes,
+      parseErrors: this.parseErrors,
+      consecutiveFailures: this.consecutiveFailures,
+      lastEventAt: this.lastEventAt !== null ? new Date(this.lastEventAt).toISOString() : null,
+    };
+  }
+
+  private async connect(): Promise<void> {
+    const url = buildStreamUrl(this.baseUrl, this.stream, this.tag || undefined);
+    const abort = new AbortController();
+    this.abort = abort;
+
+    const headers: Record<string, string> = { 'Accept': 'text/event-stream' };
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    let reason = 'stream ended';
+    try {
+      const res = await fetch(url, { headers, signal: abort.signal });
+      if (!res.ok || !res.body) {
+        throw new Error(`${res.status} ${res.statusText}`);
+      }
+
+      this.connected = true;
+      console.log(`[Mastodon] ✅ Connected to ${url}`);
+
+      const parser = createParser({
+        onEvent: (event) => this.handleEvent(event),
+      });
+      const decoder = new TextDecoder();
+      const reader = res.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+    } catch (err) {
+      if (abort.signal.aborted) {
+        return; // stop() - not a failure
+      }
+      reason = err instanceof Error ? err.message : String(err);
+    } finally {
+      this.connected = false;
+    }
+
+    if (!this.running || abort !== this.abort) {
+      return;
+    }
+    this.scheduleReconnect(reason);
+  }
+
+  private scheduleReconnect(reason: string): void {
+    const delay = backoffDelay(this.consecutiveFailures);
+    this.consecutiveFailures++;
+    console.log(`[Mastodon] ⚠️  Stream closed (${reason}). Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${this.consecutiveFailures})...`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) {
+        void this.connect();
+      }
+    }, delay);
+  }
+
+  private handleEvent(event: EventSourceMessage): void {
+    this.lastEventAt = Date.now();
+    // Events are flowing - start backoff over on the next disconnect
+    this.consecutiveFailures = 0;
+
+    switch (event.event) {
+      case 'update':
+      case 'status.update': {
+        let status: MastodonStatus;
+        try {
+          status = JSON.parse(event.data) as MastodonStatus;
+        } catch {
+          this.parseErrors++;
+          return;
+        }
+
+        const post = postFromStatus(status, new URL(this.baseUrl).host);
+        if (!post) {
+          this.skipped++;
+          return;
+        }
+        this.trackId(status.id, post.uri);
+        if (event.event === 'status.update') {
+          this.callbacks.onUpdate?.(post);
+        } else {
+          this.statuses++;
+          this.callbacks.onPost(post);
+        }
+        break;
+      }
+      case 'delete': {
+        // Payload is the bare status id
+        const uri = this.uriById.get(event.data.trim());
+        if (uri) {
+          this.uriById.delete(event.data.trim());
+          this.deletes++;
+          this.callbacks.onDelete?.(uri);
+        }
+        break;
+      }
+      default:
+        // notification, conversation, announcement... - not on public streams
+        break;
+    }
+  }
+
+  private trackId(id: string, uri: string): void {
+    this.uriById.delete(id);
+    this.uriById.set(id, uri);
+    if (this.uriById.size > MAX_TRACKED_IDS) {
+      // Maps iterate in insertion order - drop the oldest
+      const oldest = this.uriById.keys().next().value;
+      if (oldest !== undefined) {
+        this.uriById.delete(oldest);
+      }
+    }
+  }
+}
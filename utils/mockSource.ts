@@ -0,0 +1,35 @@
+// =====================
+// MOCK SOURCE
+// =====================
+// Generated posts around the region center, for demos without API keys.
+
+import { generateMockData } from './generateMockData';
+import type { TweetData } from './loadDataset';
+import type { SourceAdapter, SourceQuery } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+function normalizeMockRows(rows: TweetData[], query: SourceQuery): UnifiedPost[] {
+  const createdAt = new Date().toISOString();
+  return rows.map((row, index) => ({
+    text: row.text,
+    createdAt,
+    source: 'mock',
+    uri: `mock-${index}`,
+    cid: `mock-${index}`,
+    lat: row.lat,
+    lon: row.lon,
+    region: query.region,
+  }));
+}
+
+export const mockSource: SourceAdapter<TweetData> = {
+  id: 'mock',
+  label: 'Mock data',
+  kind: 'social',
+  enabledByDefault: false,
+  defaultLimit: 50,
+  supportsTimeWindow: false,
+  isConfigured: () => true,
+  fetch: (query) => generateMockData(query.center || { lat: 0, lon: 0 }, query.limit),
+  normalize: normalizeMockRows,
+};
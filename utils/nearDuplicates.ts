@@ -0,0 +1,241 @@
+// =====================
+// NEAR-DUPLICATE CLUSTERING
+// =====================
+// Wire stories (AP, Reuters, AFP...) are republished by dozens of outlets, so GDELT and
+// NewsAPI return the same story many times with small edits - a different headline
+// suffix, a trimmed description. Left alone, each copy is its own point on the map and
+// its own vote in the emotion summary.
+//
+// Copies are found with MinHash over word shingles:
+// 1. Each text becomes a set of overlapping 3-word shingles
+// 2. A MinHash signature estimates the Jaccard similarity of two sets
+// 3. LSH banding groups signatures so only likely pairs are compared (no n^2 pass)
+// 4. Pairs above the threshold are merged; each cluster keeps one canonical post
+//
+// Optional environment variables:
+// - NEAR_DUPLICATE_THRESHOLD (estimated Jaccard similarity for two posts to be copies, default 0.7)
+
+import { getSourceKind } from './sources';
+import type { UnifiedPost } from './ingestUnified';
+
+export interface NearDuplicateOptions {
+  threshold?: number; // Estimated Jaccard similarity, 0-1 (default NEAR_DUPLICATE_THRESHOLD or 0.7)
+  shingleSize?: number; // Words per shingle (default 3)
+  newsOnly?: boolean; // Only cluster news articles - social posts pass through (default true)
+}
+
+export interface NearDuplicateResult {
+  posts: UnifiedPost[]; // Canonical posts plus everything that wasn't clustered, in input order
+  collapsed: number; // Copies removed
+}
+
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_SHINGLE_SIZE = 3;
+// 32 bands of 4 rows: pairs at 0.7 similarity share a band ~99.9% of the time, pairs at 0.3 ~23%
+const NUM_HASHES = 128;
+const ROWS_PER_BAND = 4;
+
+/**
+ * murmur3's 32-bit finalizer - spreads the bits of a hash
+ */
+function mix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function hashString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// One seed per MinHash function, fixed so signatures are comparable across calls
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix32(i + 1));
+
+/**
+ * Lowercase, drop URLs and punctuation, collapse whitespace
+ */
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hashed word shingles of a text
+ * Texts shorter than one shingle become a single shingle of all their words
+ */
+export function shingles(text: string, size: number = DEFAULT_SHINGLE_SIZE): Set<number> {
+  const words = normalizeText(text).split(' ').filter(Boolean);
+  const result = new Set<number>();
+  if (words.length === 0) return result;
+  if (words.length <= size) {
+    result.add(hashString(words.join(' ')));
+    return result;
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(hashString(words.slice(i, i + size).join(' ')));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature of a shingle set: the smallest value of each seeded hash
+ */
+export function minHashSignature(shingleSet: Set<number>): Uint32Array {
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingleSet) {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = mix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity: the share of signature slots that agree
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+function getThreshold(option?: number): number {
+  const value = option ?? Number(process.env.NEAR_DUPLICATE_THRESHOLD);
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : DEFAULT_THRESHOLD;
+}
+
+/**
+ * Where a copy came from: the outlet's host name for web articles, otherwise the source id
+ */
+function copySource(post: UnifiedPost): string {
+  try {
+    const url = new URL(post.uri);
+    if (url.protocol === 'http:' || url.protocol === 'https:') {
+      return url.hostname.replace(/^www\./, '');
+    }
+  } catch {
+    // Not a URL (at:// URIs, generated ids)
+  }
+  return post.source;
+}
+
+/**
+ * Canonical copy of a cluster: the earliest published (likely the original), ties to the longer text
+ */
+function pickCanonical(copies: UnifiedPost[]): UnifiedPost {
+  return copies.reduce((best, post) => {
+    const bestTime = new Date(best.createdAt).getTime() || Infinity;
+    const time = new Date(post.createdAt).getTime() || Infinity;
+    if (time !== bestTime) return time < bestTime ? post : best;
+    return post.text.length > best.text.length ? post : best;
+  });
+}
+
+/**
+ * Collapse near-duplicate posts (syndicated copies of one story) into one post each
+ * The canonical post gets duplicateCount (copies removed) and duplicateSources (every
+ * copy's outlet, canonical first), and borrows a copy's coordinates if it has none.
+ * @param posts - Posts from any mix of sources
+ * @param options - Similarity threshold, shingle size, and whether social posts are clustered too
+ * @returns The remaining posts in input order, and how many copies were removed
+ */
+export function collapseNearDuplicates(posts: UnifiedPost[], options: NearDuplicateOptions = {}): NearDuplicateResult {
+  const threshold = getThreshold(options.threshold);
+  const shingleSize = Math.max(1, Math.round(options.shingleSize ?? DEFAULT_SHINGLE_SIZE));
+  const newsOnly = options.newsOnly ?? true;
+
+  // Signatures for the posts that take part (null: passes through untouched)
+  const signatures = posts.map(post => {
+    if (newsOnly && getSourceKind(post.source) !== 'news') return null;
+    const shingleSet = shingles(post.text, shingleSize);
+    return shingleSet.size > 0 ? minHashSignature(shingleSet) : null;
+  });
+
+  // Union-find over post indexes
+  const parent = posts.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  // LSH: posts sharing any band are candidates; candidates above the threshold are merged
+  for (let band = 0; band < NUM_HASHES / ROWS_PER_BAND; band++) {
+    const buckets = new Map<string, number[]>();
+    signatures.forEach((signature, index) => {
+      if (!signature) return;
+      const key = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',');
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    });
+
+    for (const bucket of buckets.values()) {
+      for (let i = 1; i < bucket.length; i++) {
+        for (let j = 0; j < i; j++) {
+          const a = find(bucket[i]);
+          const b = find(bucket[j]);
+          if (a === b) continue;
+          if (estimateSimilarity(signatures[bucket[i]]!, signatures[bucket[j]]!) >= threshold) {
+            parent[Math.max(a, b)] = Math.min(a, b);
+          }
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, UnifiedPost[]>();
+  posts.forEach((post, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(post);
+    else clusters.set(root, [post]);
+  });
+
+  // Clusters are keyed by their lowest index, so this keeps input order
+  const result: UnifiedPost[] = [];
+  for (const copies of clusters.values()) {
+    if (copies.length === 1) {
+      result.push(copies[0]);
+      continue;
+    }
+    const canonical = pickCanonical(copies);
+    const located = canonical.lat !== null && canonical.lon !== null
+      ? canonical
+      : copies.find(post => post.lat !== null && post.lon !== null);
+    result.push({
+      ...canonical,
+      lat: located?.lat ?? null,
+      lon: located?.lon ?? null,
+      duplicateCount: copies.length - 1,
+      duplicateSources: [...new Set([canonical, ...copies].map(copySource))],
+    });
+  }
+
+  const collapsed = posts.length - result.length;
+  if (collapsed > 0) {
+    console.log(`[Dedupe] Collapsed ${collapsed} near-duplicate copies into ${result.filter(post => post.duplicateCount).length} stories`);
+  }
+  return { posts: result, collapsed };
+}
@@ -1,8 +1,19 @@
 // =====================
 // NEWS API CLIENT
 // =====================
-// Fetches top news headlines for a specific country
-// and turns them into uniform Post objects.
+// Fetches news for a specific country and turns them into uniform Post objects:
+// - /v2/everything      free-text search (region or country name), optionally limited to sources/domains
+// - /v2/top-headlines   current headlines by country and category, or by source
+// Docs: https://newsapi.org/docs/endpoints
+
+// Languages /v2/everything can filter on (ISO 639-1)
+export const NEWSAPI_LANGUAGES = ['ar', 'de', 'en', 'es', 'fr', 'he', 'it', 'nl', 'no', 'pt', 'ru', 'sv', 'ur', 'zh'];
+
+// NewsAPI's own codes where they differ from ISO 639-1 (it calls Urdu "ud")
+const NEWSAPI_LANGUAGE_CODES: Record<string, string> = { ur: 'ud' };
+
+export const NEWS_CATEGORIES = ['business', 'entertainment', 'general', 'health', 'science', 'sports', 'technology'] as const;
+export type NewsCategory = typeof NEWS_CATEGORIES[number];
 
 export interface NewsPost {
   text: string;
@@ -11,6 +22,199 @@ export interface NewsPost {
   region: string;
   url: string;
   coordinates: null;
+  category?: NewsCategory; // Set for top headlines requested by category
+  sourceName?: string; // Outlet, e.g. "BBC News"
+  language?: string; // Set when the search was limited to a language
+}
+
+export interface NewsSourceFilter {
+  sources?: string[]; // NewsAPI source ids, e.g. "bbc-news" (see /v2/top-headlines/sources)
+  domains?: string[]; // /v2/everything only, e.g. "bbc.co.uk"
+  language?: string; // /v2/everything only, one of NEWSAPI_LANGUAGES (default: all languages)
+}
+
+export interface TopHeadlinesOptions {
+  country?: string; // 2-letter country code
+  category?: NewsCategory;
+  sources?: string[]; // Can't be combined with country or category
+  query?: string; // Keywords within the headlines
+  limit?: number; // Default 100
+}
+
+interface NewsApiArticle {
+  title: string;
+  description: string | null;
+  publishedAt: string;
+  url: string;
+  source?: { id: string | null; name: string };
+}
+
+const NEWSAPI_URL = 'https://newsapi.org/v2';
+const MAX_PAGE_SIZE = 100; // Both endpoints allow up to 100 per page
+const MAX_PAGES = 3; // Fetch up to 3 pages = 300 articles max
+
+// NewsAPI doesn't report quota in its responses, so requests are counted locally
+// (developer plan: 100 requests/day, reset at midnight UTC)
+const DEFAULT_DAILY_LIMIT = 100;
+let usageDay = '';
+let requestsToday = 0;
+
+function countRequest(): void {
+  const today = new Date().toISOString().slice(0, 10);
+  if (today !== usageDay) {
+    usageDay = today;
+    requestsToday = 0;
+  }
+  requestsToday++;
+}
+
+export interface NewsApiUsage {
+  requestsToday: number;
+  dailyLimit: number; // NEWSAPI_DAILY_LIMIT, default 100
+  resetAt: string; // Next midnight UTC
+}
+
+/**
+ * Requests made today against the daily quota
+ */
+export function getNewsApiUsage(): NewsApiUsage {
+  const now = new Date();
+  const today = now.toISOString().slice(0, 10);
+  const resetAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  return {
+    requestsToday: today === usageDay ? requestsToday : 0,
+    dailyLimit: Number(process.env.NEWSAPI_DAILY_LIMIT) || DEFAULT_DAILY_LIMIT,
+    resetAt: resetAt.toISOString(),
+  };
+}
+
+/**
+ * Whether a string is one of NewsAPI's categories
+ */
+export function isNewsCategory(value: string): value is NewsCategory {
+  return (NEWS_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * Request pages from a NewsAPI endpoint until `limit` articles or the results run out
+ * @param endpoint - "everything" or "top-headlines"
+ * @param params - Endpoint parameters (pageSize, page and apiKey are added)
+ * @throws Error if NewsAPI answers with an error (bad parameters, invalid key, rate limited)
+ */
+async function fetchArticlePages(
+  endpoint: 'everything' | 'top-headlines',
+  params: Record<string, string>,
+  limit: number,
+  apiKey: string
+): Promise<NewsApiArticle[]> {
+  const articles: NewsApiArticle[] = [];
+  const pagesNeeded = Math.min(MAX_PAGES, Math.ceil(limit / MAX_PAGE_SIZE));
+
+  for (let page = 1; page <= pagesNeeded && articles.length < limit; page++) {
+    const pageSize = Math.min(MAX_PAGE_SIZE, limit - articles.length);
+    const search = new URLSearchParams({ ...params, pageSize: String(pageSize), page: String(page), apiKey });
+
+    countRequest();
+    const res = await fetch(`${NEWSAPI_URL}/${endpoint}?${search.toString()}`);
+    const json = await res.json();
+    if (json.status === 'error') {
+      throw new Error(`NewsAPI ${endpoint}: ${json.code || res.status} - ${json.message || 'request failed'}`);
+    }
+
+    const pageArticles: NewsApiArticle[] = Array.isArray(json.articles) ? json.articles : [];
+    articles.push(...pageArticles);
+    console.log(`[NewsAPI] Fetched ${endpoint} page ${page}: ${pageArticles.length} articles (total so far: ${articles.length})`);
+
+    // If we got fewer articles than requested, we've reached the end
+    if (pageArticles.length < pageSize) {
+      break;
+    }
+  }
+  return articles.slice(0, limit);
+}
+
+function toNewsPost(article: NewsApiArticle, region: string, category?: NewsCategory, language?: string): NewsPost {
+  return {
+    text: `${article.title}. ${article.description || ""}`,
+    createdAt: new Date(article.publishedAt).getTime(),
+    source: "newsapi" as const,
+    region,
+    url: article.url,
+    coordinates: null, // NewsAPI does not return coordinates
+    category,
+    sourceName: article.source?.name,
+    language,
+  };
+}
+
+/**
+ * Fetch current top headlines by country and category, or by source
+ * @param options - Country, category, sources, keywords and limit
+ * @returns Array of news posts in uniform format (tagged with the category, if one was given)
+ * @throws Error if sources are combined with country/category (NewsAPI doesn't allow it)
+ * or NewsAPI rejects the request
+ */
+export async function fetchTopHeadlines(options: TopHeadlinesOptions = {}): Promise<NewsPost[]> {
+  const apiKey = process.env.NEWSAPI_KEY;
+
+  if (!apiKey) {
+    console.warn('[NewsAPI] NEWSAPI_KEY not set, skipping news fetch');
+    return [];
+  }
+
+  const { country, category, sources, query, limit = 100 } = options;
+  if (sources?.length && (country || category)) {
+    throw new Error('NewsAPI top-headlines cannot combine sources with country or category');
+  }
+
+  const params: Record<string, string> = {};
+  if (country) params.country = country.toLowerCase();
+  if (category) params.category = category;
+  if (sources?.length) params.sources = sources.join(',');
+  if (query) params.q = query;
+  if (Object.keys(params).length === 0) {
+    // The endpoint needs at least one filter
+    params.country = 'us';
+  }
+
+  console.log(`[NewsAPI] Top headlines for ${Object.entries(params).map(([key, value]) => `${key}=${value}`).join(', ')}`);
+  const articles = await fetchArticlePages('top-headlines', params, limit, apiKey);
+  return articles.map(article => toNewsPost(article, params.country || 'unknown', category));
+}
+
+/**
+ * Fetch a country's top headlines in each category, tagged with their category
+ * One request per category - mind the daily quota
+ * @param countryCode - 2-letter country code
+ * @param categories - Categories to fetch (default: all seven)
+ * @param perCategory - Maximum headlines per category
+ * @returns Headlines from every category that succeeded (failed categories are logged)
+ * @throws Error if every category failed
+ */
+export async function fetchHeadlinesByCategory(
+  countryCode: string,
+  categories: NewsCategory[] = [...NEWS_CATEGORIES],
+  perCategory = 20
+): Promise<NewsPost[]> {
+  const results = await Promise.allSettled(
+    categories.map(category => fetchTopHeadlines({ country: countryCode, category, limit: perCategory }))
+  );
+
+  const posts: NewsPost[] = [];
+  let lastError: unknown = null;
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      posts.push(...result.value);
+    } else {
+      lastError = result.reason;
+      console.error(`[NewsAPI] Error fetching ${categories[index]} headlines:`, result.reason);
+    }
+  });
+
+  if (categories.length > 0 && results.every(result => result.status === 'rejected')) {
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  }
+  return posts;
 }
 
 /**
@@ -18,24 +222,26 @@ export interface NewsPost {
  * @param countryCode - 2-letter country code (e.g., "us", "gb", "fr")
  * @param regionName - Optional city/region name for more specific search (e.g., "New York", "Los Angeles")
  * @param limit - Maximum number of articles to return (default: 100, max: 100 per NewsAPI)
+ * @param filters - Optional: only articles from these NewsAPI sources or domains, or in this language
  * @returns Array of news posts in uniform format
  */
-export async function fetchNewsForCountry(countryCode: string, limit = 100, regionName?: string): Promise<NewsPost[]> {
+export async function fetchNewsForCountry(
+  countryCode: string,
+  limit = 100,
+  regionName?: string,
+  filters: NewsSourceFilter = {}
+): Promise<NewsPost[]> {
   const apiKey = process.env.NEWSAPI_KEY;
-  
+
   if (!apiKey) {
     console.warn('[NewsAPI] NEWSAPI_KEY not set, skipping news fetch');
     return [];
   }
 
-  // NewsAPI top-headlines doesn't support pagination properly
+  // NewsAPI top-headlines only covers current headlines
   // Use the "everything" endpoint instead which supports pagination and has more results
   // We'll search for news in the country by using the country name as a query
-  const maxPageSize = 100; // Everything endpoint allows up to 100 per page
-  const maxPages = 3; // Fetch up to 3 pages = 300 articles max
-  const pagesNeeded = Math.min(maxPages, Math.ceil(limit / maxPageSize));
-  const articles: Array<{ title: string; description: string; publishedAt: string; url: string }> = [];
-  
+
   // If regionName is provided, search for that specific city/region
   // Otherwise, search by country name
   let searchQuery: string;
@@ -60,52 +266,25 @@ export async function fetchNewsForCountry(countryCode: string, limit = 100, regi
     searchQuery = countryNames[countryCode.toLowerCase()] || countryCode;
     console.log(`[NewsAPI] Searching for country: "${searchQuery}"`);
   }
-  
-  for (let page = 1; page <= pagesNeeded && articles.length < limit; page++) {
-    const pageSize = Math.min(maxPageSize, limit - articles.length);
-    // Use "everything" endpoint with region/country name search
-    const url = `https://newsapi.org/v2/everything?q=${encodeURIComponent(searchQuery)}&language=en&pageSize=${pageSize}&page=${page}&sortBy=publishedAt&apiKey=${apiKey}`;
-    
-    try {
-      const res = await fetch(url);
-      const json = await res.json();
-      
-      if (json.articles && json.articles.length > 0) {
-        articles.push(...json.articles);
-        console.log(`[NewsAPI] Fetched page ${page}: ${json.articles.length} articles (total so far: ${articles.length})`);
-      } else {
-        // No more articles available
-        break;
-      }
-      
-      // If we got fewer articles than requested, we've reached the end
-      if (json.articles.length < pageSize) {
-        break;
-      }
-    } catch (err) {
-      console.error(`[NewsAPI] Error fetching page ${page}:`, err);
-      break;
-    }
+
+  const params: Record<string, string> = { q: searchQuery, sortBy: 'publishedAt' };
+  if (filters.language) params.language = NEWSAPI_LANGUAGE_CODES[filters.language] ?? filters.language;
+  if (filters.sources?.length) params.sources = filters.sources.join(',');
+  if (filters.domains?.length) params.domains = filters.domains.join(',');
+
+  let articles: NewsApiArticle[];
+  try {
+    articles = await fetchArticlePages('everything', params, limit, apiKey);
+  } catch (err) {
+    console.error('[NewsAPI] Error fetching articles:', err);
+    return [];
   }
-  
+
   if (articles.length === 0) {
     console.warn('[NewsAPI] No articles in response');
     return [];
   }
 
-  try {
-    // Return articles up to the limit
-    return articles.slice(0, limit).map((a) => ({
-      text: `${a.title}. ${a.description || ""}`,
-      createdAt: new Date(a.publishedAt).getTime(),
-      source: "newsapi" as const,
-      region: countryCode,
-      url: a.url,
-      coordinates: null, // NewsAPI does not return coordinates
-    }));
-  } catch (err) {
-    console.error("NewsAPI error:", err);
-    return [];
-  }
+  // Return articles up to the limit
+  return articles.map(article => toNewsPost(article, countryCode, undefined, filters.language));
 }
-
@@ -0,0 +1,124 @@
+// =====================
+// NEWSAPI SOURCE
+// =====================
+// News articles from NewsAPI, as two sources:
+// - newsapi            searched by region (or country) name
+// - newsapi-headlines  the country's top headlines in each category, tagged with the category
+// Off by default: they need NEWSAPI_KEY and the free plan allows 100 requests a day
+// (the headlines source makes one request per category).
+//
+// Optional environment variables:
+// - NEWSAPI_SOURCES (comma-separated NewsAPI source ids the search is limited to, e.g. "bbc-news,reuters")
+// - NEWSAPI_CATEGORIES (comma-separated categories for newsapi-headlines, defaults to all seven)
+
+import {
+  fetchHeadlinesByCategory,
+  fetchNewsForCountry,
+  getNewsApiUsage,
+  isNewsCategory,
+  NEWS_CATEGORIES,
+  NEWSAPI_LANGUAGES,
+  type NewsCategory,
+  type NewsPost,
+} from './newsApiClient';
+import { countryCodeMap } from './countryMap';
+import { withinWindow, type SourceAdapter, type SourceQuery, type SourceQuota } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+async function fetchNews(query: SourceQuery): Promise<NewsPost[]> {
+  const region = query.region || '';
+  const countryCode = countryCodeMap[region.toLowerCase()] || countryCodeMap['default'];
+  const sources = listEnv('NEWSAPI_SOURCES');
+
+  if (!query.languages) {
+    const news = await fetchNewsForCountry(countryCode, query.limit, query.region, { sources });
+    return news.filter(post => withinWindow(post.createdAt, query));
+  }
+
+  // NewsAPI takes one language per search - one search per supported language, sharing the limit
+  const languages = query.languages.filter(language => NEWSAPI_LANGUAGES.includes(language));
+  if (languages.length === 0) {
+    console.log(`[NewsAPI] None of the requested languages (${query.languages.join(', ')}) are supported, skipping`);
+    return [];
+  }
+  const perLanguage = Math.max(1, Math.ceil(query.limit / languages.length));
+  const results = await Promise.all(
+    languages.map(language => fetchNewsForCountry(countryCode, perLanguage, query.region, { sources, language }))
+  );
+  return results.flat().filter(post => withinWindow(post.createdAt, query));
+}
+
+function listEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Categories for the headlines source: NEWSAPI_CATEGORIES, or all of them
+ */
+function getHeadlineCategories(): NewsCategory[] {
+  const configured = listEnv('NEWSAPI_CATEGORIES').filter(isNewsCategory);
+  return configured.length > 0 ? configured : [...NEWS_CATEGORIES];
+}
+
+async function fetchHeadlines(query: SourceQuery): Promise<NewsPost[]> {
+  const region = query.region || '';
+  const countryCode = countryCodeMap[region.toLowerCase()] || countryCodeMap['default'];
+  const categories = getHeadlineCategories();
+  // Split the limit evenly so every category is represented
+  const perCategory = Math.max(1, Math.ceil(query.limit / categories.length));
+  const news = await fetchHeadlinesByCategory(countryCode, categories, perCategory);
+  return news.filter(post => withinWindow(post.createdAt, query));
+}
+
+/**
+ * Normalizer for one of the NewsAPI sources (posts carry the adapter id as their source)
+ */
+function newsPostNormalizer(sourceId: string): (posts: NewsPost[]) => UnifiedPost[] {
+  return posts => posts.map((post, index) => ({
+    text: post.text,
+    createdAt: new Date(post.createdAt).toISOString(),
+    source: sourceId,
+    uri: post.url || `${sourceId}-${index}`,
+    cid: `${sourceId}-${index}`,
+    lat: null,
+    lon: null,
+    region: post.region,
+    category: post.category,
+    language: post.language,
+  }));
+}
+
+function newsApiQuota(): SourceQuota {
+  const usage = getNewsApiUsage();
+  return {
+    remaining: Math.max(0, usage.dailyLimit - usage.requestsToday),
+    limit: usage.dailyLimit,
+    resetAt: usage.resetAt,
+  };
+}
+
+export const newsApiSource: SourceAdapter<NewsPost> = {
+  id: 'newsapi',
+  label: 'NewsAPI',
+  kind: 'news',
+  enabledByDefault: false,
+  defaultLimit: 20,
+  supportsTimeWindow: true,
+  isConfigured: () => !!process.env.NEWSAPI_KEY,
+  fetch: fetchNews,
+  normalize: newsPostNormalizer('newsapi'),
+  quota: newsApiQuota,
+};
+
+export const newsApiHeadlinesSource: SourceAdapter<NewsPost> = {
+  id: 'newsapi-headlines',
+  label: 'NewsAPI top headlines',
+  kind: 'news',
+  enabledByDefault: false,
+  defaultLimit: 70, // 10 per category
+  supportsTimeWindow: true,
+  isConfigured: () => !!process.env.NEWSAPI_KEY,
+  fetch: fetchHeadlines,
+  normalize: newsPostNormalizer('newsapi-headlines'),
+  quota: newsApiQuota,
+};
@@ -0,0 +1,365 @@
+// =====================
+// POST INDEX
+// =====================
+// Storage behind PostBuffer, built for firehose insert rates:
+// - Ring storage ordered by arrival time (O(1) insert, O(expired) eviction)
+// - CID map for O(1) dedupe, URI and author maps for deletes/edits/takedowns
+// - Token inverted index so keyword/region lookups only touch matching posts
+//
+// Every post gets a monotonically increasing sequence number; its ring slot is
+// `seq % capacity`, so newer posts always have higher sequence numbers.
+
+import type { BlueskyPost } from './blueskyClient';
+import { postSearchText } from './blueskyRecord';
+
+export interface BufferedPost extends BlueskyPost {
+  timestamp: number; // When the post was added to buffer
+}
+
+interface IndexEntry {
+  seq: number;
+  post: BufferedPost;
+  tokens: string[];
+}
+
+/**
+ * Lowercase and strip accents ("São" -> "sao") - the form tokens and phrases are compared in
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Split text into index tokens
+ * Normalizes with normalizeSearchText, and keeps hashtags both with and
+ * without the "#" so "#nyc" matches a "nyc" query and vice versa
+ */
+export function tokenize(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+
+  const tokens = new Set<string>();
+  for (const match of normalized.matchAll(/#?[\p{L}\p{N}]+/gu)) {
+    const token = match[0];
+    tokens.add(token);
+    if (token.startsWith('#') && token.length > 1) {
+      tokens.add(token.slice(1));
+    }
+  }
+  return [...tokens];
+}
+
+/**
+ * Key for the URI map - the firehose extractors build "at://did/..." and "did/..." URIs
+ */
+function uriKey(uri: string): string {
+  return uri.replace(/^at:\/\//, '');
+}
+
+export class PostIndex {
+  private slots: (IndexEntry | undefined)[];
+  private capacity: number;
+  private nextSeq: number = 0; // Sequence number the next post will get
+  private oldestSeq: number = 0; // Oldest sequence number still in the ring
+  private liveCount: number = 0;
+  private byCid: Map<string, number> = new Map(); // cid -> seq
+  private byUri: Map<string, number> = new Map(); // uri key -> seq
+  private byAuthor: Map<string, Set<number>> = new Map(); // author DID -> seqs
+  private postings: Map<string, Set<number>> = new Map(); // token -> seqs
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.slots = new Array(capacity);
+  }
+
+  get size(): number {
+    return this.liveCount;
+  }
+
+  get maxSize(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Insert a post, overwriting the oldest one when full
+   * @returns false if a post with the same CID is already buffered
+   */
+  insert(post: BufferedPost): boolean {
+    if (post.cid && this.byCid.has(post.cid)) {
+      return false;
+    }
+
+    // Ring is full - the slot we're about to take holds the oldest post
+    if (this.nextSeq - this.oldestSeq >= this.capacity) {
+      this.evictOldest();
+    }
+
+    const seq = this.nextSeq++;
+    const entry: IndexEntry = { seq, post, tokens: tokenize(postSearchText(post)) };
+    this.slots[seq % this.capacity] = entry;
+    this.liveCount++;
+
+    if (post.cid) {
+      this.byCid.set(post.cid, seq);
+    }
+    if (post.uri) {
+      this.byUri.set(uriKey(post.uri), seq);
+    }
+    if (post.authorDid) {
+      let set = this.byAuthor.get(post.authorDid);
+      if (!set) {
+        set = new Set();
+        this.byAuthor.set(post.authorDid, set);
+      }
+      set.add(seq);
+    }
+    for (const token of entry.tokens) {
+      let set = this.postings.get(token);
+      if (!set) {
+        set = new Set();
+        this.postings.set(token, set);
+      }
+      set.add(seq);
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether a post with this CID is buffered
+   */
+  has(cid: string): boolean {
+    return this.byCid.has(cid);
+  }
+
+  /**
+   * Remove a post by CID (leaves a tombstone in the ring)
+   * @returns true if a post was removed
+   */
+  removeByCid(cid: string): boolean {
+    const seq = this.byCid.get(cid);
+    if (seq === undefined) {
+      return false;
+    }
+    this.removeSeq(seq);
+    return true;
+  }
+
+  /**
+   * Remove a post by its at:// URI (deleted or edited posts)
+   * @returns The removed post, or null if it wasn't buffered
+   */
+  removeByUri(uri: string): BufferedPost | null {
+    const seq = this.byUri.get(uriKey(uri));
+    const entry = seq !== undefined ? this.entryAt(seq) : undefined;
+    if (!entry) {
+      return null;
+    }
+    this.removeSeq(entry.seq);
+    return entry.post;
+  }
+
+  /**
+   * Remove every post by an author (account taken down, deactivated or deleted)
+   * @returns The removed posts
+   */
+  removeByAuthor(did: string): BufferedPost[] {
+    const seqs = this.byAuthor.get(did);
+    if (!seqs) {
+      return [];
+    }
+
+    const removed: BufferedPost[] = [];
+    for (const seq of [...seqs]) {
+      const entry = this.entryAt(seq);
+      if (entry) {
+        removed.push(entry.post);
+        this.removeSeq(seq);
+      }
+    }
+    this.byAuthor.delete(did);
+    return removed;
+  }
+
+  /**
+   * Drop posts added before the cutoff (ring is time-ordered, so this stops at the first fresh post)
+   * @returns Number of posts evicted
+   */
+  evictOlderThan(cutoffTimestamp: number): number {
+    let evicted = 0;
+    while (this.oldestSeq < this.nextSeq) {
+      const entry = this.entryAt(this.oldestSeq);
+      if (entry && entry.post.timestamp >= cutoffTimestamp) {
+        break;
+      }
+      if (entry) {
+        evicted++;
+      }
+      this.evictOldest();
+    }
+    return evicted;
+  }
+
+  /**
+   * Oldest buffered post's timestamp, or null when empty
+   */
+  oldestTimestamp(): number | null {
+    for (let seq = this.oldestSeq; seq < this.nextSeq; seq++) {
+      const entry = this.entryAt(seq);
+      if (entry) {
+        return entry.post.timestamp;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Every buffered post, oldest first
+   */
+  all(): BufferedPost[] {
+    const results: BufferedPost[] = [];
+    for (let seq = this.oldestSeq; seq < this.nextSeq; seq++) {
+      const entry = this.entryAt(seq);
+      if (entry) {
+        results.push(entry.post);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Newest posts first
+   * @param predicate - Optional check on each post (e.g. only one network)
+   */
+  newest(limit: number, predicate?: (post: BufferedPost) => boolean): BufferedPost[] {
+    const results: BufferedPost[] = [];
+    for (let seq = this.nextSeq - 1; seq >= this.oldestSeq && results.length < limit; seq--) {
+      const entry = this.entryAt(seq);
+      if (entry && (!predicate || predicate(entry.post))) {
+        results.push(entry.post);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Posts containing every token of the query, newest first
+   * Only walks the smallest posting list, so cost scales with matches, not buffer size
+   * @param query - Words, phrase or hashtag (matched on whole words)
+   * @param limit - Maximum results
+   * @param predicate - Optional extra check on each candidate (e.g. exact phrase)
+   */
+  search(query: string, limit: number, predicate?: (post: BufferedPost) => boolean): BufferedPost[] {
+    const candidates = this.candidateSeqs(query);
+    const results: BufferedPost[] = [];
+
+    for (let i = candidates.length - 1; i >= 0 && results.length < limit; i--) {
+      const entry = this.entryAt(candidates[i]);
+      if (entry && (!predicate || predicate(entry.post))) {
+        results.push(entry.post);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Posts matching any of the queries, newest first (deduped)
+   * Used for region lookups, where a region has many alternative keywords
+   */
+  searchAny(queries: string[], limit: number): BufferedPost[] {
+    const seqs = new Set<number>();
+    for (const query of queries) {
+      for (const seq of this.candidateSeqs(query)) {
+        seqs.add(seq);
+      }
+    }
+
+    const results: BufferedPost[] = [];
+    for (const seq of [...seqs].sort((a, b) => b - a)) {
+      if (results.length >= limit) break;
+      const entry = this.entryAt(seq);
+      if (entry) {
+        results.push(entry.post);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Sequence numbers (ascending) of posts containing every token of the query
+   */
+  private candidateSeqs(query: string): number[] {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    // A hashtag query indexes both "#tag" and "tag" - only the hashtag itself must match
+    const required = tokens.filter(t => !tokens.includes(`#${t}`));
+    const lists = required.map(t => this.postings.get(t));
+    if (lists.some(list => !list || list.size === 0)) {
+      return [];
+    }
+
+    const sorted = (lists as Set<number>[]).sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = sorted;
+    const matches: number[] = [];
+    for (const seq of smallest) {
+      if (rest.every(set => set.has(seq))) {
+        matches.push(seq);
+      }
+    }
+    // Sets keep insertion order, which is ascending seq
+    return matches;
+  }
+
+  private entryAt(seq: number): IndexEntry | undefined {
+    if (seq < this.oldestSeq || seq >= this.nextSeq) {
+      return undefined;
+    }
+    const entry = this.slots[seq % this.capacity];
+    return entry && entry.seq === seq ? entry : undefined;
+  }
+
+  private evictOldest(): void {
+    const entry = this.entryAt(this.oldestSeq);
+    if (entry) {
+      this.removeSeq(entry.seq);
+    }
+    this.oldestSeq++;
+  }
+
+  private removeSeq(seq: number): void {
+    const entry = this.entryAt(seq);
+    if (!entry) {
+      return;
+    }
+
+    this.slots[seq % this.capacity] = undefined;
+    this.liveCount--;
+
+    if (entry.post.cid && this.byCid.get(entry.post.cid) === seq) {
+      this.byCid.delete(entry.post.cid);
+    }
+    if (entry.post.uri && this.byUri.get(uriKey(entry.post.uri)) === seq) {
+      this.byUri.delete(uriKey(entry.post.uri));
+    }
+    if (entry.post.authorDid) {
+      const authored = this.byAuthor.get(entry.post.authorDid);
+      authored?.delete(seq);
+      if (authored && authored.size === 0) {
+        this.byAuthor.delete(entry.post.authorDid);
+      }
+    }
+    for (const token of entry.tokens) {
+      const set = this.postings.get(token);
+      if (!set) continue;
+      set.delete(seq);
+      if (set.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+  }
+}
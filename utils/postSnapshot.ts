@@ -0,0 +1,72 @@
+// =====================
+// POST BUFFER SNAPSHOTS
+// =====================
+// Saves the PostBuffer to a local NDJSON file (one buffered post per line)
+// and loads it back on boot, so dev reloads and restarts don't empty the map.
+//
+// Optional environment variable:
+// - POST_BUFFER_SNAPSHOT_PATH (defaults to ".pulselens/post-buffer.ndjson")
+
+import fs from 'fs';
+import path from 'path';
+
+import type { BufferedPost } from './postIndex';
+
+export const DEFAULT_SNAPSHOT_PATH = path.join(process.cwd(), '.pulselens', 'post-buffer.ndjson');
+
+/**
+ * Write posts to an NDJSON snapshot (atomic: temp file, then rename)
+ * @param filePath - Snapshot file
+ * @param posts - Buffered posts, oldest first
+ */
+export async function writeSnapshot(filePath: string, posts: BufferedPost[]): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tmpPath = `${filePath}.tmp`;
+  const body = posts.map(post => JSON.stringify(post)).join('\n');
+  await fs.promises.writeFile(tmpPath, posts.length > 0 ? `${body}\n` : '', 'utf-8');
+  await fs.promises.rename(tmpPath, filePath);
+}
+
+/**
+ * Read posts back from an NDJSON snapshot, skipping expired or malformed lines
+ * @param filePath - Snapshot file
+ * @param maxAge - Posts buffered longer ago than this (ms) are dropped
+ * @returns Buffered posts, oldest first (empty if there is no snapshot)
+ */
+export function readSnapshot(filePath: string, maxAge: number): BufferedPost[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const cutoff = Date.now() - maxAge;
+  const posts: BufferedPost[] = [];
+  let skipped = 0;
+
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  for (const line of lines) {
+    if (!line.trim()) continue;
+
+    try {
+      const post = JSON.parse(line) as BufferedPost;
+      if (typeof post.text !== 'string' || typeof post.timestamp !== 'number') {
+        skipped++;
+        continue;
+      }
+      if (post.timestamp < cutoff) {
+        continue; // Expired while we were down
+      }
+      posts.push(post);
+    } catch {
+      // A crash mid-write can leave a truncated last line
+      skipped++;
+    }
+  }
+
+  if (skipped > 0) {
+    console.warn(`[Snapshot] Skipped ${skipped} malformed line(s) in ${filePath}`);
+  }
+
+  // Keep the ring time-ordered even if the file was edited by hand
+  return posts.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractMainRegion, filterByRegion } from './regionFilter';
+
+// =====================
+// TESTS
+// =====================
+describe('extractMainRegion', () => {
+  it('strips country and state-code suffixes', () => {
+    expect(extractMainRegion('Austin, TX')).toBe('austin');
+    expect(extractMainRegion('Springfield, IL, United States')).toBe('springfield');
+    expect(extractMainRegion('Boise, USA')).toBe('boise');
+    expect(extractMainRegion('Tulsa OK')).toBe('tulsa');
+  });
+
+  it('keeps single-word regions whose last letters look like a suffix', () => {
+    expect(extractMainRegion('Japan')).toBe('japan');
+    expect(extractMainRegion('Belarus')).toBe('belarus');
+    expect(extractMainRegion('Peru')).toBe('peru');
+    expect(extractMainRegion('Cyprus')).toBe('cyprus');
+  });
+});
+
+describe('filterByRegion', () => {
+  it('matches posts naming a region that ends in suffix-like letters', () => {
+    const posts = [
+      { text: 'Earthquake felt across Japan this morning' },
+      { text: 'Sunny weekend at the beach' },
+    ];
+    expect(filterByRegion(posts, 'Japan')).toEqual([posts[0]]);
+  });
+});
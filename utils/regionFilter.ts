@@ -8,9 +8,13 @@
 // Uses multiple approaches:
 // 1. Keyword matching (fast, exact matches)
 // 2. NLP location extraction (slower, but finds implicit location mentions)
+//
+// Bluesky posts are matched on their hashtags, image alt text and link card too,
+// not just the post body (see postSearchText).
 
 import type { BlueskyPost } from './blueskyClient';
 import { extractLocationsBatch } from './extractLocations';
+import { postSearchText } from './blueskyRecord';
 
 // =====================
 // STEP 1 — KEYWORD MAP
@@ -112,8 +116,9 @@ export function extractMainRegion(fullRegion: string): string {
   // If no match, try to extract first significant word/phrase
   // Remove common suffixes like ", United States", ", NY", etc.
   const cleaned = lower
-    .replace(/,?\s*(united states|usa|us)$/i, '')
-    .replace(/,?\s*[a-z]{2}$/i, '') // Remove state codes
+    // Suffixes must be separate words - "japan" doesn't end in a state code, nor "belarus" in "us"
+    .replace(/(,\s*|\s+)(united states|usa|us)$/i, '')
+    .replace(/(,\s*|\s+)[a-z]{2}$/i, '') // Remove state codes
     .split(',')[0] // Take first part before comma
     .trim();
   
@@ -123,13 +128,16 @@ export function extractMainRegion(fullRegion: string): string {
 // =====================
 // STEP 4 — REGION FILTER FUNCTION
 // =====================
+// Anything with text can be region-filtered; Bluesky extras (hashtags, alt text, link cards) are matched when present
+export type RegionMatchable = Pick<BlueskyPost, 'text'> & Partial<Omit<BlueskyPost, 'source'>>;
+
 /**
  * Filter posts by region keywords (fast keyword-based matching)
- * @param posts - Array of Bluesky posts
+ * @param posts - Array of Bluesky posts (or anything with text, e.g. news items or dataset rows)
  * @param region - Region name to filter by (can be full address like "Queens, New York, United States")
  * @returns Filtered array of posts that match the region
  */
-export function filterByRegion(posts: BlueskyPost[], region: string): BlueskyPost[] {
+export function filterByRegion<T extends RegionMatchable>(posts: T[], region: string): T[] {
   console.log(`[RegionFilter] Filtering ${posts.length} posts for region: "${region}"`);
   
   // Extract main region name from full geocoded string
@@ -155,7 +163,7 @@ export function filterByRegion(posts: BlueskyPost[], region: string): BlueskyPos
       const regionRegex = new RegExp(`\\b${escapedRegion}\\b`, 'i');
       
       const filtered = posts.filter((post) => {
-        const text = normalize(post.text || "");
+        const text = normalize(postSearchText(post));
         const matches = regionRegex.test(text);
         if (matches) {
           console.log(`[RegionFilter] Match found: "${text.substring(0, 50)}..."`);
@@ -177,8 +185,7 @@ export function filterByRegion(posts: BlueskyPost[], region: string): BlueskyPos
   const normalizedKeys = regionKeys.map(key => normalize(key));
 
   const filtered = posts.filter((post) => {
-    const postText = post.text || "";
-    const text = normalize(postText);
+    const text = normalize(postSearchText(post));
     
     // Debug: log first post to see what we're matching against
     if (posts.indexOf(post) === 0) {
@@ -0,0 +1,344 @@
+// =====================
+// RELAY FIREHOSE (com.atproto.sync.subscribeRepos)
+// =====================
+// Alternative transport to Jetstream: reads the raw repo event stream straight
+// from a relay, so we're not tied to Jetstream availability.
+//
+// Every WebSocket message is one frame made of two DAG-CBOR objects back to back:
+// - header: { op: 1, t: "#commit" | "#identity" | "#account" | "#info" | ... }
+//           or { op: -1 } for an error frame (the relay closes the stream after it)
+// - body:   the message itself; commit bodies carry the changed records as a CAR file
+//
+// Cursors are relay sequence numbers (`seq`), not Jetstream time_us.
+// Spec: https://atproto.com/specs/event-stream
+//
+// Optional environment variable:
+// - RELAY_ENDPOINTS (comma-separated subscribeRepos URLs, defaults to the Bluesky relays)
+
+import WebSocket from 'ws';
+import { readCar } from '@atproto/repo';
+import * as dagCbor from '@ipld/dag-cbor';
+import { decodeFirstSync } from 'cbor';
+
+import type { BlueskyPost } from './blueskyClient';
+import type { JetstreamHandlerOptions } from './blueskyFirehose';
+import { postFromRecord, type PostRecord } from './blueskyRecord';
+import { FirehoseConnection } from './firehoseConnection';
+import type { JetstreamSubscriptionOptions } from './jetstreamSubscription';
+
+export const DEFAULT_RELAY_ENDPOINTS = [
+  'wss://bsky.network/xrpc/com.atproto.sync.subscribeRepos',
+  'wss://relay1.us-east.bsky.network/xrpc/com.atproto.sync.subscribeRepos',
+  'wss://relay1.us-west.bsky.network/xrpc/com.atproto.sync.subscribeRepos',
+];
+
+const POST_COLLECTION = 'app.bsky.feed.post';
+
+// =====================
+// FRAME TYPES
+// =====================
+export interface RepoOp {
+  action: 'create' | 'update' | 'delete';
+  path: string; // "<collection>/<rkey>"
+  cid: unknown; // CID object decoded from DAG-CBOR (stringified for lookups); null for deletes
+}
+
+export interface RepoCommitBody {
+  seq: number;
+  repo: string; // DID
+  rev: string;
+  time: string;
+  ops: RepoOp[];
+  blocks: Uint8Array; // CAR file with the new records
+  tooBig?: boolean; // Deprecated - records were too large to include
+}
+
+export interface RepoIdentityBody {
+  seq: number;
+  did: string;
+  time: string;
+  handle?: string;
+}
+
+export interface RepoAccountBody {
+  seq: number;
+  did: string;
+  time: string;
+  active: boolean;
+  status?: string; // takendown, suspended, deleted, deactivated, ...
+}
+
+export interface RepoInfoBody {
+  name: string; // e.g. "OutdatedCursor"
+  message?: string;
+}
+
+export type RepoFrame =
+  | { type: '#commit'; body: RepoCommitBody }
+  | { type: '#identity'; body: RepoIdentityBody }
+  | { type: '#account'; body: RepoAccountBody }
+  | { type: '#info'; body: RepoInfoBody }
+  | { type: 'error'; body: { error: string; message?: string } }
+  | { type: 'unknown'; t: string; body: Record<string, unknown> };
+
+/**
+ * Relay endpoints from RELAY_ENDPOINTS, or the Bluesky defaults
+ */
+export function getRelayEndpoints(): string[] {
+  const configured = (process.env.RELAY_ENDPOINTS || '')
+    .split(',')
+    .map(endpoint => endpoint.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : [...DEFAULT_RELAY_ENDPOINTS];
+}
+
+/**
+ * Build the subscribeRepos URL with an optional seq cursor
+ */
+export function buildRelayUrl(endpoint: string, cursor: number | null = null): string {
+  const url = new URL(endpoint);
+  if (cursor !== null) {
+    url.searchParams.set('cursor', String(cursor));
+  }
+  return url.toString();
+}
+
+function toBytes(data: WebSocket.Data): Uint8Array {
+  if (typeof data === 'string') {
+    // Relays only send binary frames - a text frame can't decode, but don't misread it as bytes
+    return Buffer.from(data, 'utf-8');
+  }
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  return new Uint8Array(data);
+}
+
+/**
+ * Decode one event-stream frame into its header type and body
+ * @throws Error if the frame isn't two valid CBOR objects
+ */
+export function decodeFrame(data: WebSocket.Data): RepoFrame {
+  const bytes = toBytes(data);
+
+  // The header is plain CBOR; extendedResults tells us where the body starts
+  const { value: header, length } = decodeFirstSync(bytes, { extendedResults: true }) as {
+    value: { op?: number; t?: string };
+    length: number;
+  };
+  // The body is DAG-CBOR (CIDs are tag 42), so decode it with the IPLD codec
+  const body = dagCbor.decode(bytes.subarray(length)) as Record<string, unknown>;
+
+  if (header?.op === -1) {
+    return { type: 'error', body: body as { error: string; message?: string } };
+  }
+
+  switch (header?.t) {
+    case '#commit':
+      return { type: '#commit', body: body as unknown as RepoCommitBody };
+    case '#identity':
+      return { type: '#identity', body: body as unknown as RepoIdentityBody };
+    case '#account':
+      return { type: '#account', body: body as unknown as RepoAccountBody };
+    case '#info':
+      return { type: '#info', body: body as unknown as RepoInfoBody };
+    default:
+      return { type: 'unknown', t: String(header?.t), body };
+  }
+}
+
+export interface CommitPostChanges {
+  created: BlueskyPost[];
+  updated: BlueskyPost[];
+  deleted: string[]; // at:// URIs
+}
+
+/**
+ * Pull post creates, edits and deletes out of a commit
+ * Records are looked up by CID in the commit's CAR blocks and decoded as DAG-CBOR
+ */
+export async function extractPostChanges(commit: RepoCommitBody): Promise<CommitPostChanges> {
+  const changes: CommitPostChanges = { created: [], updated: [], deleted: [] };
+
+  const postOps = (commit.ops || []).filter(op => op.path?.startsWith(`${POST_COLLECTION}/`));
+  if (postOps.length === 0) {
+    return changes;
+  }
+
+  for (const op of postOps) {
+    if (op.action === 'delete') {
+      changes.deleted.push(`at://${commit.repo}/${op.path}`);
+    }
+  }
+
+  const writes = postOps.filter(op => (op.action === 'create' || op.action === 'update') && op.cid);
+  if (writes.length === 0 || !commit.blocks || commit.tooBig) {
+    return changes;
+  }
+
+  // The relay has already verified these blocks - skip re-hashing every one
+  const car = await readCar(commit.blocks, { skipCidVerification: true });
+  const blocks = new Map<string, Uint8Array>();
+  for (const [cid, bytes] of car.blocks) {
+    blocks.set(cid.toString(), bytes);
+  }
+
+  for (const op of writes) {
+    const bytes = blocks.get(String(op.cid));
+    if (!bytes) continue;
+
+    try {
+      const record = dagCbor.decode(bytes) as PostRecord;
+      const post = postFromRecord(record, {
+        uri: `at://${commit.repo}/${op.path}`,
+        cid: String(op.cid),
+        authorDid: commit.repo,
+      });
+      if (post) {
+        (op.action === 'update' ? changes.updated : changes.created).push(post);
+      }
+    } catch (err) {
+      console.warn('[Relay] Error decoding post record:', err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return changes;
+}
+
+export interface RepoHandlerOptions extends JetstreamHandlerOptions {
+  // Only wantedDids is applied (client-side) - relays don't filter server-side
+  getSubscription?: () => JetstreamSubscriptionOptions;
+}
+
+/**
+ * Build the handler for raw subscribeRepos frames
+ * Calls the same post/delete/edit/account callbacks as the Jetstream handler
+ * @param onPost - Callback for each new post
+ * @param options - seq cursor, metrics and delete/edit/account callbacks
+ */
+export function createRepoMessageHandler(
+  onPost: (post: BlueskyPost) => void,
+  options: RepoHandlerOptions = {}
+): (data: WebSocket.Data) => Promise<void> {
+  const { cursor, metrics, onDelete, onUpdate, onAccountInactive, getSubscription } = options;
+
+  return async (data: WebSocket.Data) => {
+    metrics?.recordMessage();
+
+    let frame: RepoFrame;
+    try {
+      frame = decodeFrame(data);
+    } catch (err) {
+      metrics?.recordParseError();
+      console.warn('[Relay] ⚠️  Could not decode frame:', err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    switch (frame.type) {
+      case '#commit': {
+        const commit = frame.body;
+        const wantedDids = getSubscription?.().wantedDids;
+        if (!wantedDids?.length || wantedDids.includes(commit.repo)) {
+          try {
+            const changes = await extractPostChanges(commit);
+            for (const post of changes.created) {
+              metrics?.recordPost();
+              onPost(post);
+            }
+            for (const post of changes.updated) {
+              onUpdate?.(post);
+            }
+            for (const uri of changes.deleted) {
+              onDelete?.(uri);
+            }
+          } catch (err) {
+            metrics?.recordParseError();
+            console.warn(`[Relay] ⚠️  Could not read commit ${commit.seq} from ${commit.repo}:`, err instanceof Error ? err.message : String(err));
+          }
+        }
+        cursor?.update(commit.seq, Date.parse(commit.time));
+        break;
+      }
+      case '#account':
+        // Inactive accounts (takendown, suspended, deactivated, deleted) should disappear from the map
+        if (frame.body.active === false) {
+          console.log(`[Relay] 🚫 Account ${frame.body.did} is ${frame.body.status || 'inactive'} - evicting its posts`);
+          onAccountInactive?.(frame.body.did, frame.body.status);
+        }
+        cursor?.update(frame.body.seq, Date.parse(frame.body.time));
+        break;
+      case '#identity':
+        // Handle changes don't affect buffered posts - just advance the cursor
+        cursor?.update(frame.body.seq, Date.parse(frame.body.time));
+        break;
+      case '#info':
+        // OutdatedCursor: our cursor is older than the relay's backfill window
+        console.log(`[Relay] ℹ️  Info: ${frame.body.name}${frame.body.message ? ` - ${frame.body.message}` : ''}`);
+        break;
+      case 'error':
+        console.error(`[Relay] ❌ Error frame: ${frame.body.error}${frame.body.message ? ` - ${frame.body.message}` : ''}`);
+        break;
+      default: {
+        // #sync and future message types - advance the cursor if they carry one
+        const seq = frame.body.seq;
+        if (typeof seq === 'number') {
+          cursor?.update(seq);
+        }
+      }
+    }
+  };
+}
+
+export interface StartRelayFirehoseOptions extends RepoHandlerOptions {
+  // Relay endpoints to fail over between (defaults to RELAY_ENDPOINTS or the Bluesky relays)
+  endpoints?: string[];
+}
+
+/**
+ * Start a persistent subscribeRepos connection
+ * @param onPost - Callback for each new post
+ * @param options - seq cursor (use a FirehoseCursor of kind "seq"), endpoints and callbacks
+ * @returns The connection - call stop() on it to disconnect
+ */
+export function startRelayFirehose(
+  onPost: (post: BlueskyPost) => void,
+  options: StartRelayFirehoseOptions = {}
+): FirehoseConnection {
+  const { cursor, metrics, endpoints } = options;
+  let resumeFrom: number | null = null;
+
+  // Frames are handled in order - a commit's CAR parse must finish before the
+  // next frame moves the cursor past it
+  let queue: Promise<void> = Promise.resolve();
+  const handleMessage = createRepoMessageHandler(onPost, options);
+
+  const connection = new FirehoseConnection({
+    endpoints: endpoints?.length ? endpoints : getRelayEndpoints(),
+    metrics,
+    label: 'Relay',
+    buildUrl: (endpoint) => {
+      // seq is per relay - resume from this endpoint's own cursor
+      cursor?.useEndpoint(endpoint);
+      resumeFrom = cursor ? cursor.resumeFrom() : null;
+      return buildRelayUrl(endpoint, resumeFrom);
+    },
+    onOpen: () => {
+      if (cursor && resumeFrom !== null) {
+        cursor.markGapRecovered();
+        console.log(`[Relay] ⏪ Resuming from seq ${resumeFrom}`);
+      }
+    },
+    onMessage: (data) => {
+      queue = queue.then(() => handleMessage(data));
+    },
+    onClose: () => {
+      cursor?.persist();
+    },
+  });
+  connection.start();
+
+  return connection;
+}
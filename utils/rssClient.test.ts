@@ -0,0 +1,108 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import type { FeedCatalogEntry } from './feedCatalog';
+import { fetchFeedsForRegion } from './rssClient';
+
+// =====================
+// FIXTURE SERVER
+// =====================
+// Two international feeds served from 127.0.0.1 through FEED_CATALOG_PATH: an RSS feed
+// revalidated with ETag and an Atom feed revalidated with Last-Modified.
+
+const ETAG = '"rss-v1"';
+const LAST_MODIFIED = 'Tue, 06 Jan 2026 12:00:00 GMT';
+
+const RSS = `<rss version="2.0"><channel><title>Valley News</title>
+  <item><title>Flood warning</title><link>https://news.example/flood</link>
+    <pubDate>Mon, 05 Jan 2026 08:30:00 GMT</pubDate></item>
+</channel></rss>`;
+
+const ATOM = `<feed xmlns="http://www.w3.org/2005/Atom"><title>Harbour Watch</title>
+  <entry><title>Storm surge</title><link href="https://harbour.example/storm"/>
+    <id>tag:harbour.example,2026:1</id><updated>2026-01-06T12:00:00Z</updated></entry>
+</feed>`;
+
+let server: http.Server;
+let catalogDir: string;
+let requests: http.IncomingMessage[] = [];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push(req);
+    if (req.url === '/rss.xml') {
+      if (req.headers['if-none-match'] === ETAG) {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/rss+xml', 'ETag': ETAG }).end(RSS);
+      return;
+    }
+    if (req.url === '/atom.xml') {
+      if (req.headers['if-modified-since'] === LAST_MODIFIED) {
+        res.writeHead(304).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/atom+xml', 'Last-Modified': LAST_MODIFIED }).end(ATOM);
+      return;
+    }
+    res.writeHead(500).end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const catalog: FeedCatalogEntry[] = [
+    { url: `${baseUrl}/rss.xml`, name: 'Valley News', country: null, language: 'en' },
+    { url: `${baseUrl}/atom.xml`, name: 'Harbour Watch', country: null, language: 'en' },
+    { url: `${baseUrl}/broken.xml`, name: 'Broken Feed', country: null, language: 'en' },
+  ];
+  catalogDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pulselens-feeds-'));
+  process.env.FEED_CATALOG_PATH = path.join(catalogDir, 'catalog.json');
+  fs.writeFileSync(process.env.FEED_CATALOG_PATH, JSON.stringify(catalog));
+});
+
+afterAll(async () => {
+  delete process.env.FEED_CATALOG_PATH;
+  fs.rmSync(catalogDir, { recursive: true, force: true });
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// =====================
+// TESTS
+// =====================
+describe('fetchFeedsForRegion', () => {
+  it('merges feeds newest first, skips failing feeds, and revalidates with 304s', async () => {
+    const first = await fetchFeedsForRegion();
+
+    expect(first.map(item => [item.title, item.feedName])).toEqual([
+      ['Storm surge', 'Harbour Watch'],
+      ['Flood warning', 'Valley News'],
+    ]);
+    expect(requests.map(req => req.url).sort()).toEqual(['/atom.xml', '/broken.xml', '/rss.xml']);
+
+    // Within the refresh interval the cache answers without any request
+    requests = [];
+    expect(await fetchFeedsForRegion()).toEqual(first);
+    expect(requests.filter(req => req.url !== '/broken.xml')).toHaveLength(0);
+
+    // After it, cached feeds are revalidated and the 304s reuse their items
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 1000);
+    requests = [];
+    expect(await fetchFeedsForRegion()).toEqual(first);
+
+    const rss = requests.find(req => req.url === '/rss.xml');
+    const atom = requests.find(req => req.url === '/atom.xml');
+    expect(rss?.headers['if-none-match']).toBe(ETAG);
+    expect(atom?.headers['if-modified-since']).toBe(LAST_MODIFIED);
+  });
+});
@@ -0,0 +1,121 @@
+// =====================
+// RSS / ATOM CLIENT
+// =====================
+// Fetches the catalog feeds for a region (see feedCatalog.ts) and returns their items.
+// Uses conditional GET: each feed's ETag and Last-Modified are sent back as
+// If-None-Match / If-Modified-Since, and a 304 reuses the items we already have.
+
+import { parseFeed, type FeedItem } from './feedParser';
+import { getFeedsForRegion, type FeedCatalogEntry } from './feedCatalog';
+
+const FEED_TIMEOUT_MS = 10 * 1000;
+// Don't re-request a feed more often than this, even conditionally
+const MIN_REFRESH_MS = 60 * 1000;
+// Cap on feeds requested at once (a global query matches every country-level feed)
+const MAX_FEEDS_PER_REQUEST = 16;
+
+export interface RssItem extends FeedItem {
+  feedName: string;
+  feedUrl: string;
+  country: string | null;
+  language: string;
+}
+
+interface FeedCacheEntry {
+  etag: string | null;
+  lastModified: string | null;
+  items: FeedItem[];
+  fetchedAt: number;
+}
+
+const feedCache = new Map<string, FeedCacheEntry>();
+
+/**
+ * Fetch one feed, revalidating any cached copy
+ * @throws Error on network errors, non-2xx/304 responses or unparseable feeds
+ */
+async function fetchFeed(feed: FeedCatalogEntry): Promise<FeedItem[]> {
+  const cached = feedCache.get(feed.url);
+  if (cached && Date.now() - cached.fetchedAt < MIN_REFRESH_MS) {
+    return cached.items;
+  }
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+    'User-Agent': 'PulseLens/0.1 (feed reader)',
+  };
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  const res = await fetch(feed.url, { headers, signal: AbortSignal.timeout(FEED_TIMEOUT_MS) });
+
+  if (res.status === 304 && cached) {
+    cached.fetchedAt = Date.now();
+    console.log(`[Feeds] ${feed.name}: not modified (${cached.items.length} cached items)`);
+    return cached.items;
+  }
+  if (!res.ok) {
+    throw new Error(`${feed.name} responded ${res.status} ${res.statusText}`);
+  }
+
+  const { items } = parseFeed(await res.text());
+  feedCache.set(feed.url, {
+    etag: res.headers.get('etag'),
+    lastModified: res.headers.get('last-modified'),
+    items,
+    fetchedAt: Date.now(),
+  });
+  console.log(`[Feeds] ${feed.name}: ${items.length} items`);
+  return items;
+}
+
+/**
+ * Fetch items from every catalog feed covering a region, newest first
+ * Feeds that fail are logged and skipped
+ * @param region - Region name; omit for international and country-level feeds
+ * @param limit - Maximum number of items to return
+ * @param languages - Optional: only feeds in these languages (ISO 639-1)
+ * @returns Items deduped by link
+ * @throws Error only if every feed failed
+ */
+export async function fetchFeedsForRegion(region?: string, limit: number = 100, languages?: string[]): Promise<RssItem[]> {
+  const feeds = getFeedsForRegion(region)
+    .filter(feed => !languages || languages.includes(feed.language))
+    .slice(0, MAX_FEEDS_PER_REQUEST);
+  if (feeds.length === 0) {
+    console.log(`[Feeds] No feeds in catalog for ${region || 'global'}${languages ? ` in ${languages.join(', ')}` : ''}`);
+    return [];
+  }
+
+  const results = await Promise.allSettled(feeds.map(fetchFeed));
+
+  const seen = new Set<string>();
+  const items: RssItem[] = [];
+  let failures = 0;
+  results.forEach((result, i) => {
+    const feed = feeds[i];
+    if (result.status === 'rejected') {
+      failures++;
+      console.warn(`[Feeds] ⚠️  ${feed.name} failed:`, result.reason instanceof Error ? result.reason.message : String(result.reason));
+      return;
+    }
+    for (const item of result.value) {
+      const key = item.link || item.id;
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      items.push({ ...item, feedName: feed.name, feedUrl: feed.url, country: feed.country, language: feed.language });
+    }
+  });
+
+  if (failures === feeds.length) {
+    throw new Error(`All ${feeds.length} feeds failed for ${region || 'global'}`);
+  }
+
+  return items
+    .sort((a, b) => (b.publishedAt ?? 0) - (a.publishedAt ?? 0))
+    .slice(0, limit);
+}
@@ -0,0 +1,43 @@
+// =====================
+// RSS SOURCE
+// =====================
+// Articles from the RSS/Atom feed catalog - regional outlets that NewsAPI and
+// GDELT don't cover well.
+
+import { fetchFeedsForRegion, type RssItem } from './rssClient';
+import { normalizeLanguage } from './languagePolicy';
+import { withinWindow, type SourceAdapter, type SourceQuery } from './sourceAdapter';
+import type { UnifiedPost } from './ingestUnified';
+
+async function fetchRss(query: SourceQuery): Promise<RssItem[]> {
+  const items = await fetchFeedsForRegion(query.region, query.limit, query.languages);
+  // Undated items are kept - feeds only carry recent items anyway
+  return items.filter(item => item.publishedAt === null || withinWindow(item.publishedAt, query));
+}
+
+function normalizeRssItems(items: RssItem[], query: SourceQuery): UnifiedPost[] {
+  const fetchedAt = new Date().toISOString();
+  return items.map(item => ({
+    text: item.summary && item.summary !== item.title ? `${item.title}. ${item.summary}` : item.title,
+    createdAt: item.publishedAt !== null ? new Date(item.publishedAt).toISOString() : fetchedAt,
+    source: 'rss',
+    uri: item.link || item.id,
+    cid: item.id || item.link,
+    lat: null,
+    lon: null,
+    region: query.region || item.country || undefined,
+    language: normalizeLanguage(item.language),
+  }));
+}
+
+export const rssSource: SourceAdapter<RssItem> = {
+  id: 'rss',
+  label: 'RSS/Atom feeds',
+  kind: 'news',
+  enabledByDefault: true,
+  defaultLimit: 50,
+  supportsTimeWindow: true,
+  isConfigured: () => true, // Public feeds, no key
+  fetch: fetchRss,
+  normalize: normalizeRssItems,
+};
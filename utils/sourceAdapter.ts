@@ -0,0 +1,209 @@
+// =====================
+// SOURCE ADAPTERS
+// =====================
+// Every data source (Bluesky, GDELT, NewsAPI, the CSV dataset, mock data) is a
+// SourceAdapter: it fetches raw items for a region/time window, normalizes them
+// to UnifiedPost, and reports whether it's configured and how much quota is left.
+//
+// Adapters live in a registry, so the ingestion pipeline and the API routes only
+// ever deal with source ids - adding a source means writing an adapter and
+// registering it in sources.ts, not touching the routes.
+//
+// Optional environment variable:
+// - ENABLED_SOURCES (comma-separated adapter ids used when a request doesn't choose,
+//   defaults to every adapter marked enabledByDefault)
+
+import type { SourceKind, UnifiedPost } from './ingestUnified';
+
+// =====================
+// TYPES
+// =====================
+export interface SourceQuery {
+  region?: string; // Region name as typed by the user; omitted for global
+  center?: { lat: number; lon: number }; // Geocoded region center, when known
+  since?: Date; // Start of the time window (inclusive)
+  until?: Date; // End of the time window (exclusive)
+  languages?: string[]; // ISO 639-1 codes to request (see languagePolicy.ts); omitted for any language
+  dataset?: string; // Uploaded dataset id for the dataset source (see datasetStore.ts); default: the bundled CSV
+  limit: number; // Maximum items to return
+}
+
+export interface SourceQuota {
+  remaining: number | null;
+  limit: number | null;
+  resetAt: string | null; // ISO timestamp
+}
+
+export interface SourceHealth {
+  configured: boolean; // Credentials/files present
+  ok: boolean; // Configured and the last fetch (if any) succeeded
+  lastFetchAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastCount: number | null; // Posts returned by the last successful fetch
+  consecutiveFailures: number;
+  quota: SourceQuota | null; // null when the source has no quota (or doesn't report one)
+}
+
+export interface SourceAdapter<Raw = unknown> {
+  id: string; // Stored on UnifiedPost.source, e.g. "bluesky"
+  label: string; // Human-readable name
+  kind: SourceKind; // "social" or "news" - how the map styles it
+  enabledByDefault: boolean;
+  defaultLimit: number;
+  // Whether fetch() honours since/until (sources without timestamps, like the dataset, don't)
+  supportsTimeWindow: boolean;
+  isConfigured(): boolean;
+  fetch(query: SourceQuery): Promise<Raw[]>;
+  normalize(items: Raw[], query: SourceQuery): UnifiedPost[];
+  quota?(): SourceQuota | null;
+}
+
+export interface SourceInfo {
+  id: string;
+  label: string;
+  kind: SourceKind;
+  enabledByDefault: boolean;
+  supportsTimeWindow: boolean;
+  health: SourceHealth;
+}
+
+interface HealthState {
+  lastFetchAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  lastCount: number | null;
+  consecutiveFailures: number;
+}
+
+// =====================
+// REGISTRY
+// =====================
+const adapters = new Map<string, SourceAdapter>();
+const healthStates = new Map<string, HealthState>();
+
+/**
+ * Add an adapter to the registry (replaces any adapter with the same id)
+ */
+export function registerSource<Raw>(adapter: SourceAdapter<Raw>): void {
+  adapters.set(adapter.id, adapter as SourceAdapter);
+  healthStates.set(adapter.id, {
+    lastFetchAt: null,
+    lastSuccessAt: null,
+    lastError: null,
+    lastCount: null,
+    consecutiveFailures: 0,
+  });
+}
+
+export function getSource(id: string): SourceAdapter | undefined {
+  return adapters.get(id);
+}
+
+export function hasSource(id: string): boolean {
+  return adapters.has(id);
+}
+
+/**
+ * Ids of every registered adapter, in registration order
+ */
+export function getSourceIds(): string[] {
+  return [...adapters.keys()];
+}
+
+/**
+ * Sources used when a request doesn't choose: ENABLED_SOURCES, or every enabledByDefault adapter
+ */
+export function getDefaultSources(): string[] {
+  const configured = (process.env.ENABLED_SOURCES || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(id => adapters.has(id));
+  if (configured.length > 0) {
+    return configured;
+  }
+  return [...adapters.values()].filter(adapter => adapter.enabledByDefault).map(adapter => adapter.id);
+}
+
+/**
+ * "social" or "news" for a source id (unknown ids count as news)
+ */
+export function getSourceKind(id: string): SourceKind {
+  return adapters.get(id)?.kind ?? 'news';
+}
+
+/**
+ * Whether a post falls inside the query's time window
+ * For adapters whose APIs can't filter by time themselves
+ */
+export function withinWindow(createdAt: string | number, query: SourceQuery): boolean {
+  const time = new Date(createdAt).getTime();
+  if (isNaN(time)) return true;
+  if (query.since && time < query.since.getTime()) return false;
+  if (query.until && time >= query.until.getTime()) return false;
+  return true;
+}
+
+/**
+ * Fetch and normalize posts from one source, recording health
+ * @throws Error if the source isn't registered or its fetch fails
+ */
+export async function fetchFromSource(id: string, query: SourceQuery): Promise<UnifiedPost[]> {
+  const adapter = adapters.get(id);
+  const state = healthStates.get(id);
+  if (!adapter || !state) {
+    throw new Error(`Unknown source: ${id}`);
+  }
+
+  state.lastFetchAt = Date.now();
+  try {
+    const items = await adapter.fetch(query);
+    const posts = adapter.normalize(items, query).slice(0, query.limit);
+    state.lastSuccessAt = Date.now();
+    state.lastError = null;
+    state.lastCount = posts.length;
+    state.consecutiveFailures = 0;
+    return posts;
+  } catch (err) {
+    state.lastError = err instanceof Error ? err.message : String(err);
+    state.consecutiveFailures++;
+    throw err;
+  }
+}
+
+/**
+ * Health, configuration and quota for one source
+ */
+export function getSourceHealth(id: string): SourceHealth | null {
+  const adapter = adapters.get(id);
+  const state = healthStates.get(id);
+  if (!adapter || !state) {
+    return null;
+  }
+
+  const configured = adapter.isConfigured();
+  return {
+    configured,
+    ok: configured && state.consecutiveFailures === 0,
+    lastFetchAt: state.lastFetchAt !== null ? new Date(state.lastFetchAt).toISOString() : null,
+    lastSuccessAt: state.lastSuccessAt !== null ? new Date(state.lastSuccessAt).toISOString() : null,
+    lastError: state.lastError,
+    lastCount: state.lastCount,
+    consecutiveFailures: state.consecutiveFailures,
+    quota: adapter.quota ? adapter.quota() : null,
+  };
+}
+
+/**
+ * Every registered source with its health, for status endpoints
+ */
+export function listSources(): SourceInfo[] {
+  return [...adapters.values()].map(adapter => ({
+    id: adapter.id,
+    label: adapter.label,
+    kind: adapter.kind,
+    enabledByDefault: adapter.enabledByDefault,
+    supportsTimeWindow: adapter.supportsTimeWindow,
+    health: getSourceHealth(adapter.id) as SourceHealth,
+  }));
+}
@@ -0,0 +1,26 @@
+// =====================
+// BUILT-IN SOURCES
+// =====================
+// Registers the bundled source adapters. Import the registry from here (not from
+// sourceAdapter.ts) so the built-ins are always registered before use.
+// To add a source: write a SourceAdapter and register it below.
+
+import { registerSource } from './sourceAdapter';
+import { blueskySource } from './blueskySource';
+import { mastodonSource } from './mastodonSource';
+import { gdeltSource } from './gdeltSource';
+import { newsApiHeadlinesSource, newsApiSource } from './newsApiSource';
+import { rssSource } from './rssSource';
+import { datasetSource } from './datasetSource';
+import { mockSource } from './mockSource';
+
+registerSource(blueskySource);
+registerSource(mastodonSource);
+registerSource(gdeltSource);
+registerSource(newsApiSource);
+registerSource(newsApiHeadlinesSource);
+registerSource(rssSource);
+registerSource(datasetSource);
+registerSource(mockSource);
+
+export * from './sourceAdapter';